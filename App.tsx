@@ -1,166 +1,200 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import GlobeMap from './components/GlobeMap';
 import HudBox from './components/DataPanel';
-import { SantaState, IntelLogEntry, ViewMode } from './types';
-import { getSantaLocation, calculateGifts, generateIntelMessage } from './services/trackingService';
+import ClockControl from './components/ClockControl';
+import IntelLogPanel from './components/IntelLogPanel';
+import MissionBriefing from './components/MissionBriefing';
+import GlobeControl, { CAMERA_MODES } from './components/GlobeControl';
+import StationDetailPanel from './components/StationDetailPanel';
+import SledCamPanel from './components/SledCamPanel';
+import { ViewMode, MissionPhase, GlobeRotation, GlobeOverlays, CameraMode, TrackingLocation, SledCamDock } from './types';
+import { setTrackingRoute, getTrackingRoute } from './services/trackingService';
+import { loadRoute, RouteValidationError } from './services/routeLoader';
+import { intelLog } from './services/intelLogStore';
+import { persistence, DEFAULT_GLOBE_ROTATION, DEFAULT_OVERLAYS, DEFAULT_SLED_CAM } from './services/persistence';
+import { missionTelemetry } from './services/missionTelemetry';
+import { missionClock } from './services/missionClock';
+import { formatWind, formatSky, isSevereWeather } from './services/weatherProvider';
+import { useMissionClock } from './hooks/useMissionClock';
+import { useMissionTelemetry } from './hooks/useMissionTelemetry';
+import { useIntelLog } from './hooks/useIntelLog';
+import { useKeyboardShortcuts } from './hooks/useKeyboardShortcuts';
+import { getTheme } from './services/themes';
+import { ThemeProvider } from './components/ThemeContext';
+
+// HH:MM:SS until the given instant
+const formatCountdown = (ms: number): string => {
+  const total = Math.max(0, Math.floor(ms / 1000));
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const sec = total % 60;
+  return `${h.toString().padStart(2, '0')}:${m.toString().padStart(2, '0')}:${sec.toString().padStart(2, '0')}`;
+};
 
 const App: React.FC = () => {
   const [viewMode, setViewMode] = useState<ViewMode>(ViewMode.OPTICAL);
-  const [currentTime, setCurrentTime] = useState(new Date());
+  const [globeRotation, setGlobeRotation] = useState<GlobeRotation>(DEFAULT_GLOBE_ROTATION);
+  const [overlays, setOverlays] = useState<GlobeOverlays>(DEFAULT_OVERLAYS);
+  const [sledCam, setSledCam] = useState<SledCamDock>(DEFAULT_SLED_CAM);
+  const { now: currentTime, clockState } = useMissionClock();
   
-  // Check if it's December 25th anywhere in the world
-  // Christmas spans from when UTC+14 enters Dec 25 (10:00 Dec 24 UTC) 
-  // until UTC-12 exits Dec 25 (11:59 Dec 26 UTC)
-  const isChristmas = (() => {
-    const utcMonth = currentTime.getUTCMonth();
-    const utcDate = currentTime.getUTCDate();
-    const utcHours = currentTime.getUTCHours();
-    
-    // If it's Dec 25 in UTC, it's definitely Christmas somewhere
-    if (utcMonth === 11 && utcDate === 25) return true;
-    
-    // If it's Dec 24 after 10:00 UTC, it's Christmas in UTC+14
-    if (utcMonth === 11 && utcDate === 24 && utcHours >= 10) return true;
-    
-    // If it's Dec 26 before 12:00 UTC, it's still Christmas in UTC-12
-    if (utcMonth === 11 && utcDate === 26 && utcHours < 12) return true;
-    
-    return false;
-  })();
+  // Colour theme for the current view mode (the same one is provided to every panel below)
+  const theme = getTheme(viewMode);
   
-  // Dynamic color theme based on view mode
-  const theme = {
-    primary: viewMode === ViewMode.THERMAL ? '#ff6600' : (viewMode === ViewMode.NIGHT_VISION ? '#00ff00' : '#00ffff'),
-    primaryDark: viewMode === ViewMode.THERMAL ? '#cc4400' : (viewMode === ViewMode.NIGHT_VISION ? '#00aa00' : '#0099aa'),
-    primaryLight: viewMode === ViewMode.THERMAL ? '#ff8844' : (viewMode === ViewMode.NIGHT_VISION ? '#44ff44' : '#44ffff'),
-    secondary: viewMode === ViewMode.THERMAL ? '#ffaa44' : (viewMode === ViewMode.NIGHT_VISION ? '#88ff88' : '#88ffff'),
-    accent: viewMode === ViewMode.THERMAL ? '#ff4400' : (viewMode === ViewMode.NIGHT_VISION ? '#00cc00' : '#00ccff'),
-    glow: viewMode === ViewMode.THERMAL ? 'rgba(255,102,0,0.3)' : (viewMode === ViewMode.NIGHT_VISION ? 'rgba(0,255,0,0.3)' : 'rgba(0,255,255,0.3)'),
-    glowStrong: viewMode === ViewMode.THERMAL ? 'rgba(255,102,0,0.6)' : (viewMode === ViewMode.NIGHT_VISION ? 'rgba(0,255,0,0.6)' : 'rgba(0,255,255,0.6)'),
+  // Shared mission state (tracking, intel events and chatter all run in the telemetry store)
+  const { santa, plannedRoute, nextStop, stations, delivery, weather, weatherSystems, phase, launchAt, returnAt, isTracking, deliveryProgress } = useMissionTelemetry();
+  const logs = useIntelLog();
+  const currentStop = stations.findIndex(s => s.status !== 'VISITED'); // Stop Santa is over or heading for (-1 once home)
+  const [routeStatus, setRouteStatus] = useState<string>('DEFAULT');
+  const [routeIssues, setRouteIssues] = useState<string[]>([]); // Why a custom route was rejected
+
+  // Globe camera. FLY-TO without a chosen station heads for the next stop.
+  const [cameraMode, setCameraMode] = useState<CameraMode>(CameraMode.FREE);
+  const [flyTarget, setFlyTarget] = useState<TrackingLocation | null>(null);
+  const flyTo = (station: TrackingLocation) => {
+    setFlyTarget(station);
+    setCameraMode(CameraMode.FLY_TO);
   };
-  
-  // Santa State
-  const [santa, setSanta] = useState<SantaState>({
-    position: [0, 0, 0],
-    rotation: [0, 0, 0],
-    speed: 4.2,
-    altitude: 35000,
-    giftsDelivered: 4500000000,
-    locationName: "NORTH POLE",
-    nextStop: "CLASSIFIED",
-    currentRegion: "ARCTIC",
-    localTime: "00:00",
-    coordinates: [90, 0],
-    visitedLocations: []
-  });
-  
-  const [plannedRoute, setPlannedRoute] = useState<[number, number][]>([]);
+  const changeCameraMode = (mode: CameraMode) => {
+    if (mode === CameraMode.FLY_TO && !flyTarget) {
+      flyTo(nextStop ? nextStop.station : getTrackingRoute()[0]);
+      return;
+    }
+    setCameraMode(mode);
+  };
+
+  // Station picked on the globe, shown in the detail panel
+  const [selectedStation, setSelectedStation] = useState<string | null>(null);
+  const selectedSchedule = stations.find(s => s.station.name === selectedStation) || null;
 
-  const [logs, setLogs] = useState<IntelLogEntry[]>([]);
+  // 1-4 pick a camera mode, C cycles through them, Esc hands control back (and closes the station panel)
+  useKeyboardShortcuts({
+    ...Object.fromEntries(CAMERA_MODES.map(({ mode, key }) => [key, () => changeCameraMode(mode)])),
+    c: () => {
+      const index = CAMERA_MODES.findIndex(({ mode }) => mode === cameraMode);
+      changeCameraMode(CAMERA_MODES[(index + 1) % CAMERA_MODES.length].mode);
+    },
+    escape: () => {
+      setCameraMode(CameraMode.FREE);
+      setSelectedStation(null);
+    }
+  });
 
-  // Time ticker
+  // Saved session (IndexedDB / localStorage). A replay resumes at the saved mission time,
+  // rate and pause state; Santa's telemetry is then recomputed from the clock.
+  const [hydrated, setHydrated] = useState(false);
+  const storageError = persistence.error(); // Read each render; the telemetry tick keeps it current
   useEffect(() => {
-    const timer = setInterval(() => setCurrentTime(new Date()), 1000);
-    return () => clearInterval(timer);
+    persistence.load().then(snapshot => {
+      if (snapshot) {
+        setViewMode(snapshot.preferences.viewMode);
+        setGlobeRotation(snapshot.preferences.globeRotation);
+        setOverlays(snapshot.preferences.overlays);
+        setSledCam(snapshot.preferences.sledCam);
+        intelLog.restore(snapshot.logs);
+        if (snapshot.clock.mode === 'SIMULATED') {
+          missionClock.simulate(new Date(snapshot.clock.at), snapshot.clock.rate);
+          if (snapshot.clock.paused) missionClock.pause();
+        }
+      }
+      setHydrated(true);
+    });
   }, []);
 
-  // Tracking Loop (Only Active on December 25th)
+  // Snapshot periodically, on preference changes and when the page is hidden or closed
+  const persistRef = useRef({ viewMode, globeRotation, overlays, sledCam });
+  persistRef.current = { viewMode, globeRotation, overlays, sledCam };
   useEffect(() => {
-    if (!isChristmas) return;
-    
-    const interval = setInterval(() => {
-      const trackingData = getSantaLocation();
-      
-      setSanta(prev => ({
-        ...prev,
-        locationName: trackingData.location.name,
-        currentRegion: trackingData.location.region,
-        localTime: trackingData.localTime,
-        coordinates: trackingData.location.coordinates,
-        visitedLocations: trackingData.visitedLocations,
-        altitude: 35000 + Math.sin(Date.now() / 2000) * 150,
-        speed: 4.2 + (Math.random() - 0.5) * 0.05,
-        giftsDelivered: calculateGifts()
-      }));
-      
-      setPlannedRoute(trackingData.plannedRoute);
-    }, 1000);
-    return () => clearInterval(interval);
-  }, [isChristmas]);
+    if (!hydrated) return;
+    const save = () => {
+      const { viewMode, globeRotation, overlays, sledCam } = persistRef.current;
+      const { mode, rate, paused } = missionClock.getState();
+      persistence.save({ clock: { mode, rate, paused, at: missionClock.now().getTime() }, logs: intelLog.getEntries(), preferences: { viewMode, globeRotation, overlays, sledCam } });
+    };
+    const onHide = () => { if (document.visibilityState === 'hidden') save(); };
 
-  // Logic-Driven Intel Loop (Only on December 25th)
-  useEffect(() => {
-    if (!isChristmas) {
-      // Show error messages when not Christmas
-      setLogs([{
-        id: 'error-1',
-        timestamp: new Date().toLocaleTimeString('en-US', {hour12: false}),
-        message: 'SYSTEM ERROR: TRACKER OFFLINE - UNAUTHORIZED DATE',
-        priority: 'HIGH' as const
-      }, {
-        id: 'error-2',
-        timestamp: new Date().toLocaleTimeString('en-US', {hour12: false}),
-        message: 'ACCESS DENIED: SANTA CLAUS TRACKER OPERATIONAL ONLY ON 25-DEC',
-        priority: 'HIGH' as const
-      }, {
-        id: 'error-3',
-        timestamp: new Date().toLocaleTimeString('en-US', {hour12: false}),
-        message: 'SIGNAL LOST: NO SLEIGH DETECTED IN AIRSPACE',
-        priority: 'HIGH' as const
-      }]);
-      return;
-    }
-    
-    // Immediate log on start or location change
-    const addLog = () => {
-        const message = generateIntelMessage(santa.locationName, santa.currentRegion, santa.speed, santa.giftsDelivered);
-        setLogs(prev => [{
-            id: Date.now().toString() + Math.random(), // Ensure unique ID
-            timestamp: new Date().toLocaleTimeString('en-US', {hour12: false}),
-            message: message,
-            priority: 'MED' as const
-        }, ...prev].slice(0, 5)); // Keep last 5
+    save();
+    const timer = setInterval(save, 10000);
+    document.addEventListener('visibilitychange', onHide);
+    window.addEventListener('pagehide', save);
+    return () => {
+      clearInterval(timer);
+      document.removeEventListener('visibilitychange', onHide);
+      window.removeEventListener('pagehide', save);
     };
+  }, [hydrated, viewMode, globeRotation, overlays, sledCam, clockState]);
+
+  // Optional custom route (ROUTE_URL), falling back to the built-in stations on any error
+  useEffect(() => {
+    const routeUrl = process.env.ROUTE_URL;
+    if (!routeUrl) return;
+
+    setRouteStatus('LOADING');
+    loadRoute(routeUrl)
+      .then(stations => {
+        setTrackingRoute(stations);
+        missionTelemetry.refresh();
+        setRouteStatus(`CUSTOM (${stations.length})`);
+      })
+      .catch(err => {
+        setRouteIssues(err instanceof RouteValidationError ? err.issues : [String(err instanceof Error ? err.message : err)]);
+        setRouteStatus('ERROR // DEFAULT');
+      });
+  }, []);
 
-    addLog();
-    const loop = setInterval(addLog, 6000); // New log every 6 seconds for faster feel
-    return () => clearInterval(loop);
-  }, [santa.locationName, santa.currentRegion, isChristmas]); // Dependency on location/region ensures immediate update on change
 
+  // Sled-cam feed, rendered in whichever side column it is docked to
+  const sledCamPanel = (
+    <SledCamPanel
+      santa={santa}
+      weather={weather}
+      overStation={stations.some(s => s.status === 'OVERHEAD')}
+      isTracking={isTracking}
+      phase={phase}
+      dock={sledCam}
+      onDockChange={setSledCam}
+    />
+  );
 
   // --- MAIN APP ---
   return (
+    <ThemeProvider mode={viewMode}>
     <div className="relative w-screen h-screen bg-black text-white font-mono overflow-hidden md:overflow-hidden">
       
       {/* --- 3D MAP BACKGROUND LAYER (Desktop Only) --- */}
       <div className="hidden md:block absolute inset-0 z-0 bg-black">
          <GlobeMap 
             santaPosition={santa.coordinates} 
+            santaHeading={santa.rotation[1]}
             visitedLocations={santa.visitedLocations}
             plannedRoute={plannedRoute}
-            viewMode={viewMode}
-            isActive={isChristmas}
+            stations={stations}
+            selectedStation={selectedStation}
+            onStationSelect={station => setSelectedStation(station.name)}
+            overlays={overlays}
+            weatherSystems={weatherSystems}
+            isActive={phase !== MissionPhase.PRE_LAUNCH}
+            rotation={globeRotation}
+            cameraMode={cameraMode}
+            cameraTarget={flyTarget ? flyTarget.coordinates : null}
          />
          
          <div className="absolute inset-0 pointer-events-none z-10 scanlines opacity-10"></div>
          <div className="absolute inset-0 pointer-events-none z-10 bg-[radial-gradient(circle_at_center,transparent_40%,rgba(0,10,10,0.8)_100%)]"></div>
          
-         {/* Error Overlay when not Christmas */}
-         {!isChristmas && (
+         {/* Pre-launch countdown / post-mission debrief */}
+         {!isTracking && (
            <div className="absolute inset-0 z-20 md:z-20 flex items-center justify-center pointer-events-none">
-             <div className="text-center">
-               <div className="text-6xl font-bold text-red-500 glitch-text mb-4">
-                 SYSTEM OFFLINE
-               </div>
-               <div className="text-2xl text-red-400 glitch mb-6">
-                 SANTA CLAUS TRACKER INACTIVE
-               </div>
-               <div className="text-lg text-red-300 border-2 border-red-500/50 bg-red-900/20 px-8 py-4 inline-block">
-                 <div className="mb-2">⚠️ OPERATIONAL WINDOW: DECEMBER 25TH ONLY ⚠️</div>
-                 <div className="text-sm text-red-400 mt-2">Current Date: {currentTime.toLocaleDateString()}</div>
-               </div>
-             </div>
+             <MissionBriefing
+               phase={phase}
+               now={currentTime}
+               launchAt={launchAt}
+               returnAt={returnAt}
+               delivery={delivery}
+               route={plannedRoute}
+               visited={santa.visitedLocations}
+             />
            </div>
          )}
          
@@ -215,199 +249,140 @@ const App: React.FC = () => {
             <div className="w-full md:w-80 flex flex-col gap-4 pointer-events-auto md:h-full justify-start order-2 md:order-1 shrink-0">
                 
                 {/* 1. Log Feed */}
-                <HudBox title={isChristmas ? "DECLASSIFIED THERMAG FEED" : "DECLASSIFIED THERMAG FEED [ERROR]"} className={`h-64 md:h-96 relative overflow-hidden ${!isChristmas ? 'glitch' : ''}`} style={{borderLeft: `4px solid ${!isChristmas ? '#ff0000' : theme.primary}`}} themeColor={!isChristmas ? '#ff0000' : theme.primary} themeDark={!isChristmas ? '#cc0000' : theme.primaryDark} themeLight={!isChristmas ? '#ff4444' : theme.primaryLight}>
-                   {/* Animated side indicator */}
-                   <div className="absolute left-0 top-0 bottom-0 w-1 bg-gradient-to-b from-transparent to-transparent data-stream opacity-30" style={{backgroundImage: `linear-gradient(to bottom, transparent, ${theme.primaryLight}, transparent)`}}></div>
-                   
-                   <div className="h-full overflow-hidden flex flex-col gap-3 relative">
-                      {logs.map((log, idx) => (
-                        <div key={log.id} className={`text-[10px] pb-2 animate-[slideIn_0.3s_ease-out] relative group ${!isChristmas ? 'glitch-text' : ''}`} style={{animationDelay: `${idx * 0.05}s`, borderBottom: `1px solid ${!isChristmas ? '#ff0000' : theme.primaryDark}30`}}>
-                            <div className="flex items-start gap-2">
-                              <span className="w-1.5 h-1.5 mt-1 rounded-full flex-shrink-0 group-hover:shadow-[0_0_12px] transition-shadow" style={{backgroundColor: !isChristmas ? '#ff0000' : theme.primary, boxShadow: `0 0 6px ${!isChristmas ? 'rgba(255,0,0,0.6)' : theme.glowStrong}`}}></span>
-                              <div>
-                                <span className="mr-2 font-bold" style={{color: !isChristmas ? '#ff4444' : theme.primaryDark}}>[{log.timestamp}]</span>
-                                <span style={{color: !isChristmas ? '#ff8888' : theme.secondary}}>{log.message}</span>
-                              </div>
-                            </div>
-                        </div>
-                      ))}
-                   </div>
-                </HudBox>
+                <IntelLogPanel logs={logs} now={currentTime} />
 
                 {/* 2. Gifts Delivered (Big Box) */}
-                <HudBox className={`bg-gradient-to-br from-[#050a0a]/95 to-[#0a1520]/95 border-2 relative overflow-hidden ${!isChristmas ? 'glitch' : ''}`} style={{borderColor: !isChristmas ? '#ff0000' : theme.primaryDark}} themeColor={!isChristmas ? '#ff0000' : theme.primary} themeDark={!isChristmas ? '#cc0000' : theme.primaryDark} themeLight={!isChristmas ? '#ff4444' : theme.primaryLight}>
+                <HudBox className="bg-gradient-to-br from-[#050a0a]/95 to-[#0a1520]/95 border-2 relative overflow-hidden" style={{borderColor: theme.primaryDark}}>
                     <div className="absolute top-0 right-0 w-24 h-24 blur-3xl" style={{backgroundColor: theme.primary + '05'}}></div>
                     <div className="relative z-10">
                       <div className="flex items-center justify-between mb-2">
-                        <span className={`text-[10px] uppercase tracking-widest font-bold ${!isChristmas ? 'glitch-text' : ''}`} style={{color: !isChristmas ? '#ff4444' : theme.primaryLight}}>Payload Delivered</span>
-                        <span className={`text-[8px] px-2 py-0.5 border rounded ${!isChristmas ? 'text-red-400 bg-red-900/30 border-red-500/30 animate-pulse' : 'text-green-400 bg-green-900/30 border-green-500/30'}`}>{isChristmas ? 'LIVE' : 'OFFLINE'}</span>
+                        <span className="text-[10px] uppercase tracking-widest font-bold" style={{color: theme.primaryLight}}>Payload Delivered</span>
+                        <span className="text-[8px] px-2 py-0.5 border rounded text-green-400 bg-green-900/30 border-green-500/30">{isTracking ? 'LIVE' : (phase === MissionPhase.PRE_LAUNCH ? 'STANDBY' : 'FINAL')}</span>
+                      </div>
+                      <div className="text-3xl sm:text-4xl font-bold tracking-tighter tabular-nums drop-shadow-[0_0_10px]" style={{color: theme.secondary, textShadow: `0 0 10px ${theme.glow}`}}>
+                          {santa.giftsDelivered.toLocaleString()}
+                      </div>
+                      <div className="w-full h-2 mt-4 relative overflow-hidden rounded-full border" style={{backgroundColor: theme.primaryDark + '30', borderColor: theme.primaryDark + '50'}}>
+                          <div className="absolute top-0 left-0 h-full bg-gradient-to-r" style={{width: `${deliveryProgress * 100}%`, backgroundImage: `linear-gradient(to right, ${theme.primaryDark}, ${theme.primaryLight}, ${theme.primaryDark})`, boxShadow: `0 0 10px ${theme.glowStrong}`}}></div>
+                      </div>
+                      <div className="flex justify-between text-[9px] mt-2" style={{color: theme.primaryDark}}>
+                        <span>RATE: +{Math.floor(delivery.ratePerSecond).toLocaleString()}/s</span>
+                        <span>MANIFEST: {(deliveryProgress * 100).toFixed(1)}%</span>
+                      </div>
+                      <div className="flex justify-between text-[9px] mt-1" style={{color: theme.primaryDark}}>
+                        <span className="truncate">AT {santa.locationName}:</span>
+                        <span className="tabular-nums" style={{color: theme.secondary}}>{(delivery.stationTotals[currentStop] ?? 0).toLocaleString()}</span>
                       </div>
-                      {isChristmas ? (
-                        <>
-                          <div className="text-3xl sm:text-4xl font-bold tracking-tighter tabular-nums drop-shadow-[0_0_10px]" style={{color: theme.secondary, textShadow: `0 0 10px ${theme.glow}`}}>
-                              {santa.giftsDelivered.toLocaleString()}
-                          </div>
-                          <div className="w-full h-2 mt-4 relative overflow-hidden rounded-full border" style={{backgroundColor: theme.primaryDark + '30', borderColor: theme.primaryDark + '50'}}>
-                              <div className="absolute top-0 left-0 h-full bg-gradient-to-r w-full shimmer" style={{backgroundImage: `linear-gradient(to right, ${theme.primaryDark}, ${theme.primaryLight}, ${theme.primaryDark})`, boxShadow: `0 0 10px ${theme.glowStrong}`}}></div>
-                          </div>
-                          <div className="flex justify-between text-[9px] mt-2" style={{color: theme.primaryDark}}>
-                            <span>RATE: +{Math.floor(Math.random() * 1000 + 5000).toLocaleString()}/s</span>
-                            <span>EFFICIENCY: 99.8%</span>
-                          </div>
-                        </>
-                      ) : (
-                        <>
-                          <div className="text-5xl font-bold tracking-tighter tabular-nums glitch-text text-red-500">
-                              NO SIGNAL
-                          </div>
-                          <div className="w-full h-2 mt-4 relative overflow-hidden rounded-full border border-red-500/30 bg-red-900/20">
-                              <div className="absolute top-0 left-0 h-full bg-red-500/50 w-0"></div>
-                          </div>
-                          <div className="flex justify-between text-[9px] mt-2 text-red-400">
-                            <span>STATUS: INACTIVE</span>
-                            <span>NEXT ACTIVE: 25-DEC</span>
-                          </div>
-                        </>
-                      )}
                     </div>
                 </HudBox>
                 
-                {/* 3. Video Feed - Picture in Picture */}
-                <div className={`relative bg-black/80 overflow-hidden ${!isChristmas ? 'glitch' : ''}`} style={{border: `1px solid ${!isChristmas ? '#ff0000' : theme.primary}50`}}>
-                    <div className={`absolute top-0 left-0 right-0 px-2 py-1 text-[8px] border-b z-10 uppercase tracking-wider ${!isChristmas ? 'glitch-text' : ''}`} style={{backgroundColor: !isChristmas ? '#330000' : theme.primaryDark + '60', color: !isChristmas ? '#ff4444' : theme.secondary, borderColor: !isChristmas ? '#ff0000' : theme.primary + '50'}}>
-                        {isChristmas ? 'LIVE FEED: TRK-12-24-A' : 'FEED OFFLINE: NO SIGNAL'}
-                    </div>
-                    {isChristmas ? (
-                      <video 
-                          src="./video/santa1.mp4" 
-                          autoPlay 
-                          loop 
-                          muted 
-                          playsInline
-                          className="w-full h-32 md:h-48 object-cover mt-5"
-                          style={{
-                            filter: viewMode === ViewMode.THERMAL 
-                              ? 'grayscale(100%) contrast(150%) brightness(120%) sepia(100%) hue-rotate(-50deg) saturate(400%)'
-                              : viewMode === ViewMode.NIGHT_VISION
-                              ? 'grayscale(100%) contrast(130%) brightness(150%) sepia(100%) hue-rotate(50deg) saturate(300%)'
-                              : 'contrast(110%) brightness(105%)'
-                          }}
-                      />
-                    ) : (
-                      <div className="w-full h-48 mt-5 bg-black flex items-center justify-center relative overflow-hidden">
-                        <div className="absolute inset-0 bg-[repeating-linear-gradient(0deg,#ff0000,#ff0000_1px,transparent_1px,transparent_2px)] opacity-10 animate-pulse"></div>
-                        <div className="text-red-500 text-2xl font-bold glitch-text">NO SIGNAL</div>
-                      </div>
-                    )}
-                    {/* Corner accents */}
-                    <div className="absolute top-5 left-0 w-4 h-4 border-t-2 border-l-2" style={{borderColor: !isChristmas ? '#ff0000' : theme.primaryLight}}></div>
-                    <div className="absolute top-5 right-0 w-4 h-4 border-t-2 border-r-2" style={{borderColor: !isChristmas ? '#ff0000' : theme.primaryLight}}></div>
-                    <div className="absolute bottom-0 left-0 w-4 h-4 border-b-2 border-l-2" style={{borderColor: !isChristmas ? '#ff0000' : theme.primaryLight}}></div>
-                    <div className="absolute bottom-0 right-0 w-4 h-4 border-b-2 border-r-2" style={{borderColor: !isChristmas ? '#ff0000' : theme.primaryLight}}></div>
-                </div>
+                {/* 3. Sled-cam (when docked on this side) */}
+                {sledCam.side === 'LEFT' && sledCamPanel}
             </div>
 
             {/* --- CENTER AREA (RETICLE) --- */}
             <div className="flex-1 relative mx-0 md:mx-8 order-1 md:order-2 md:h-auto">
                 {/* Mobile Globe View - dedicated visible interactive area */}
-                <div className="md:hidden relative h-[350px] border-2 rounded-lg overflow-hidden pointer-events-auto" style={{borderColor: !isChristmas ? '#ff0000' : theme.primary + '50', backgroundColor: '#000'}}>
+                <div className="md:hidden relative h-[350px] border-2 rounded-lg overflow-hidden pointer-events-auto" style={{borderColor: theme.primary + '50', backgroundColor: '#000'}}>
                     <GlobeMap 
                       santaPosition={santa.coordinates} 
+                      santaHeading={santa.rotation[1]}
                       visitedLocations={santa.visitedLocations}
                       plannedRoute={plannedRoute}
-                      viewMode={viewMode}
-                      isActive={isChristmas}
+                      stations={stations}
+                      selectedStation={selectedStation}
+                      onStationSelect={station => setSelectedStation(station.name)}
+                      overlays={overlays}
+                      weatherSystems={weatherSystems}
+                      isActive={phase !== MissionPhase.PRE_LAUNCH}
+                      rotation={globeRotation}
+                      cameraMode={cameraMode}
+                      cameraTarget={flyTarget ? flyTarget.coordinates : null}
                     />
                     <div className="absolute inset-0 pointer-events-none z-10 scanlines opacity-10"></div>
                 </div>
                 
+                {/* Station picked on the globe */}
+                {selectedSchedule && (
+                    <div className="relative mt-4 md:mt-0 md:absolute md:top-0 md:right-0 w-full md:w-72 pointer-events-auto z-30">
+                        <StationDetailPanel
+                            schedule={selectedSchedule}
+                            delivery={delivery}
+                            logs={logs}
+                            now={currentTime}
+                            onFlyTo={() => flyTo(selectedSchedule.station)}
+                            onClose={() => setSelectedStation(null)}
+                        />
+                    </div>
+                )}
+                
                 {/* Desktop Reticle Box */}
-                <div className={`hidden md:block absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-[80%] h-[50%] border ${!isChristmas ? 'glitch' : ''}`} style={{borderColor: !isChristmas ? '#ff0000' : theme.primary + '30'}}>
+                <div className="hidden md:block absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-[80%] h-[50%] border" style={{borderColor: theme.primary + '30'}}>
                     {/* Corners */}
-                    <div className="absolute -top-1 -left-1 w-6 h-6 border-t-2 border-l-2" style={{borderColor: !isChristmas ? '#ff0000' : theme.secondary}}></div>
-                    <div className="absolute -top-1 -right-1 w-6 h-6 border-t-2 border-r-2" style={{borderColor: !isChristmas ? '#ff0000' : theme.secondary}}></div>
-                    <div className="absolute -bottom-1 -left-1 w-6 h-6 border-b-2 border-l-2" style={{borderColor: !isChristmas ? '#ff0000' : theme.secondary}}></div>
-                    <div className="absolute -bottom-1 -right-1 w-6 h-6 border-b-2 border-r-2" style={{borderColor: !isChristmas ? '#ff0000' : theme.secondary}}></div>
+                    <div className="absolute -top-1 -left-1 w-6 h-6 border-t-2 border-l-2" style={{borderColor: theme.secondary}}></div>
+                    <div className="absolute -top-1 -right-1 w-6 h-6 border-t-2 border-r-2" style={{borderColor: theme.secondary}}></div>
+                    <div className="absolute -bottom-1 -left-1 w-6 h-6 border-b-2 border-l-2" style={{borderColor: theme.secondary}}></div>
+                    <div className="absolute -bottom-1 -right-1 w-6 h-6 border-b-2 border-r-2" style={{borderColor: theme.secondary}}></div>
 
                     {/* Top Label */}
                     <div className="absolute -top-8 left-0 flex items-center gap-2">
-                        <span className={`px-2 py-1 text-[10px] border ${!isChristmas ? 'glitch-text' : ''}`} style={{backgroundColor: !isChristmas ? '#330000' : theme.primaryDark + '80', color: !isChristmas ? '#ff4444' : theme.secondary, borderColor: !isChristmas ? '#ff0000' : theme.primary + '50'}}>
-                           {isChristmas ? 'TRK 12-24-A (RED SLED)' : 'TRK OFFLINE - NO TARGET'}
+                        <span className="px-2 py-1 text-[10px] border" style={{backgroundColor: theme.primaryDark + '80', color: theme.secondary, borderColor: theme.primary + '50'}}>
+                           {isTracking ? 'TRK 12-24-A (RED SLED)' : 'TRK 12-24-A // ON GROUND'}
+                        </span>
+                        <span className="px-2 py-1 text-[10px] border" style={{backgroundColor: '#00000080', color: theme.primaryLight, borderColor: theme.primaryDark + '50'}}>
+                           CAM: {cameraMode === CameraMode.FLY_TO && flyTarget ? `FLY-TO ${flyTarget.name}` : cameraMode}
                         </span>
                     </div>
 
                     {/* RIGHT: Telemetry */}
                     <div className="hidden md:block absolute top-8 -right-36 w-48">
-                        <HudBox className={`bg-black/70 text-xs ${!isChristmas ? 'glitch' : ''}`} style={{borderColor: !isChristmas ? '#ff0000' : theme.primaryDark}} themeColor={!isChristmas ? '#ff0000' : theme.primary} themeDark={!isChristmas ? '#cc0000' : theme.primaryDark} themeLight={!isChristmas ? '#ff4444' : theme.primaryLight}>
-                            {isChristmas ? (
-                              <>
-                                <div className="flex justify-between mb-1">
-                                    <span style={{color: theme.primaryDark}}>ALT:</span> 
-                                    <span className="font-bold" style={{color: theme.secondary}}>{Math.round(santa.altitude).toLocaleString()} FT</span>
-                                </div>
-                                <div className="flex justify-between mb-1">
-                                    <span style={{color: theme.primaryDark}}>SPEED:</span> 
-                                    <span className="font-bold" style={{color: theme.secondary}}>MACH {santa.speed.toFixed(2)}</span>
-                                </div>
-                                 <div className="flex justify-between">
-                                    <span style={{color: theme.primaryDark}}>CONF:</span> 
-                                    <span className="font-bold" style={{color: theme.secondary}}>99.9%</span>
-                                </div>
-                              </>
-                            ) : (
-                              <>
-                                <div className="flex justify-between mb-1">
-                                    <span className="text-red-400">ALT:</span> 
-                                    <span className="font-bold text-red-500 glitch-text">N/A</span>
-                                </div>
-                                <div className="flex justify-between mb-1">
-                                    <span className="text-red-400">SPEED:</span> 
-                                    <span className="font-bold text-red-500 glitch-text">N/A</span>
-                                </div>
-                                 <div className="flex justify-between">
-                                    <span className="text-red-400">STATUS:</span> 
-                                    <span className="font-bold text-red-500 glitch-text">OFFLINE</span>
-                                </div>
-                              </>
-                            )}
+                        <HudBox className="bg-black/70 text-xs" style={{borderColor: theme.primaryDark}}>
+                            <div className="flex justify-between mb-1">
+                                <span style={{color: theme.primaryDark}}>ALT:</span> 
+                                <span className="font-bold" style={{color: theme.secondary}}>{Math.round(santa.altitude).toLocaleString()} FT</span>
+                            </div>
+                            <div className="flex justify-between mb-1">
+                                <span style={{color: theme.primaryDark}}>SPEED:</span> 
+                                <span className="font-bold" style={{color: theme.secondary}}>MACH {santa.speed.toFixed(2)}</span>
+                            </div>
+                            <div className="flex justify-between mb-1">
+                                <span style={{color: theme.primaryDark}}>WIND:</span> 
+                                <span className="font-bold" style={{color: theme.secondary}}>{weather ? formatWind(weather) : '---'}</span>
+                            </div>
+                            <div className="flex justify-between mb-1">
+                                <span style={{color: theme.primaryDark}}>VIS:</span> 
+                                <span className="font-bold" style={{color: theme.secondary}}>{weather ? `${weather.visibilityKm} KM` : '---'}</span>
+                            </div>
+                            <div className="flex justify-between mb-1">
+                                <span style={{color: theme.primaryDark}}>WX:</span> 
+                                <span className="font-bold truncate ml-2" style={{color: weather && isSevereWeather(weather) ? '#ffcc00' : theme.secondary}}>{weather ? formatSky(weather) : '---'}</span>
+                            </div>
+                             <div className="flex justify-between">
+                                <span style={{color: theme.primaryDark}}>CONF:</span> 
+                                <span className="font-bold" style={{color: theme.secondary}}>99.9%</span>
+                            </div>
                         </HudBox>
                         {/* Connector */}
-                        <div className="absolute top-6 -left-12 w-12 h-[1px]" style={{backgroundColor: !isChristmas ? '#ff0000' : theme.primary + '50'}}></div>
-                        <div className="absolute top-6 -left-12 w-1 h-1 rounded-full" style={{backgroundColor: !isChristmas ? '#ff0000' : theme.secondary, boxShadow: `0 0 10px ${!isChristmas ? '#ff0000' : theme.primary}`}}></div>
+                        <div className="absolute top-6 -left-12 w-12 h-[1px]" style={{backgroundColor: theme.primary + '50'}}></div>
+                        <div className="absolute top-6 -left-12 w-1 h-1 rounded-full" style={{backgroundColor: theme.secondary, boxShadow: `0 0 10px ${theme.primary}`}}></div>
                     </div>
 
                      {/* LEFT: Location Data */}
                      <div className="hidden md:block absolute -bottom-12 -left-20 w-56">
-                        <HudBox className={`bg-black/70 text-xs ${!isChristmas ? 'glitch' : ''}`} style={{borderColor: !isChristmas ? '#ff0000' : theme.primaryDark}} themeColor={!isChristmas ? '#ff0000' : theme.primary} themeDark={!isChristmas ? '#cc0000' : theme.primaryDark} themeLight={!isChristmas ? '#ff4444' : theme.primaryLight}>
-                            {isChristmas ? (
-                              <>
-                                <div className="flex justify-between pb-1 mb-1" style={{borderBottom: `1px solid ${theme.primaryDark}`}}>
-                                    <span style={{color: theme.primary}}>SECTOR:</span>
-                                    <span className="text-white">{santa.currentRegion}</span>
-                                </div>
-                                <div className="text-[10px] mb-1" style={{color: theme.primaryDark}}>TARGET LOCK:</div>
-                                <div className="font-bold text-xl text-white flicker">{santa.locationName}</div>
-                                <div className="text-right text-[10px] mt-1" style={{color: theme.primaryLight}}>
-                                    COORDS: {santa.coordinates[0].toFixed(2)}, {santa.coordinates[1].toFixed(2)}
-                                </div>
-                              </>
-                            ) : (
-                              <>
-                                <div className="flex justify-between pb-1 mb-1 border-b border-red-500/30">
-                                    <span className="text-red-400">SECTOR:</span>
-                                    <span className="text-red-500 glitch-text">UNKNOWN</span>
-                                </div>
-                                <div className="text-[10px] mb-1 text-red-400">TARGET LOCK:</div>
-                                <div className="font-bold text-xl text-red-500 glitch-text">NO SIGNAL</div>
-                                <div className="text-right text-[10px] mt-1 text-red-400">
-                                    STATUS: INACTIVE
-                                </div>
-                              </>
-                            )}
+                        <HudBox className="bg-black/70 text-xs" style={{borderColor: theme.primaryDark}}>
+                            <div className="flex justify-between pb-1 mb-1" style={{borderBottom: `1px solid ${theme.primaryDark}`}}>
+                                <span style={{color: theme.primary}}>SECTOR:</span>
+                                <span className="text-white">{santa.currentRegion}</span>
+                            </div>
+                            <div className="text-[10px] mb-1" style={{color: theme.primaryDark}}>TARGET LOCK:</div>
+                            <div className="font-bold text-xl text-white flicker">{santa.locationName}</div>
+                            <div className="text-right text-[10px] mt-1" style={{color: theme.primaryLight}}>
+                                COORDS: {santa.coordinates[0].toFixed(2)}, {santa.coordinates[1].toFixed(2)}
+                            </div>
                         </HudBox>
                         {/* Connector */}
-                        <div className="absolute top-[-10px] right-8 w-[1px] h-[10px]" style={{backgroundColor: !isChristmas ? '#ff0000' : theme.primary + '50'}}></div>
-                        <div className="absolute top-[-10px] right-8 w-16 h-[1px]" style={{backgroundColor: !isChristmas ? '#ff0000' : theme.primary + '50'}}></div>
+                        <div className="absolute top-[-10px] right-8 w-[1px] h-[10px]" style={{backgroundColor: theme.primary + '50'}}></div>
+                        <div className="absolute top-[-10px] right-8 w-16 h-[1px]" style={{backgroundColor: theme.primary + '50'}}></div>
                     </div>
                 </div>
             </div>
@@ -417,70 +392,93 @@ const App: React.FC = () => {
                  
                  {/* Mobile Telemetry & Location */}
                  <div className="md:hidden grid grid-cols-2 gap-2">
-                    <HudBox className="bg-black/70 text-xs" style={{borderColor: !isChristmas ? '#ff0000' : theme.primaryDark}} themeColor={!isChristmas ? '#ff0000' : theme.primary} themeDark={!isChristmas ? '#cc0000' : theme.primaryDark} themeLight={!isChristmas ? '#ff4444' : theme.primaryLight}>
-                        {isChristmas ? (
-                          <>
-                            <div className="flex justify-between mb-1">
-                                <span style={{color: theme.primaryDark}}>ALT:</span> 
-                                <span className="font-bold" style={{color: theme.secondary}}>{Math.round(santa.altitude).toLocaleString()} FT</span>
-                            </div>
-                            <div className="flex justify-between mb-1">
-                                <span style={{color: theme.primaryDark}}>SPEED:</span> 
-                                <span className="font-bold" style={{color: theme.secondary}}>MACH {santa.speed.toFixed(2)}</span>
-                            </div>
-                             <div className="flex justify-between">
-                                <span style={{color: theme.primaryDark}}>CONF:</span> 
-                                <span className="font-bold" style={{color: theme.secondary}}>99.9%</span>
-                            </div>
-                          </>
-                        ) : (
-                          <>
-                            <div className="flex justify-between mb-1">
-                                <span className="text-red-400">ALT:</span> 
-                                <span className="font-bold text-red-500 glitch-text">N/A</span>
-                            </div>
-                            <div className="flex justify-between mb-1">
-                                <span className="text-red-400">SPEED:</span> 
-                                <span className="font-bold text-red-500 glitch-text">N/A</span>
-                            </div>
-                             <div className="flex justify-between">
-                                <span className="text-red-400">CONF:</span> 
-                                <span className="font-bold text-red-500 glitch-text">0%</span>
-                            </div>
-                          </>
-                        )}
+                    <HudBox className="bg-black/70 text-xs" style={{borderColor: theme.primaryDark}}>
+                        <div className="flex justify-between mb-1">
+                            <span style={{color: theme.primaryDark}}>ALT:</span> 
+                            <span className="font-bold" style={{color: theme.secondary}}>{Math.round(santa.altitude).toLocaleString()} FT</span>
+                        </div>
+                        <div className="flex justify-between mb-1">
+                            <span style={{color: theme.primaryDark}}>SPEED:</span> 
+                            <span className="font-bold" style={{color: theme.secondary}}>MACH {santa.speed.toFixed(2)}</span>
+                        </div>
+                        <div className="flex justify-between mb-1">
+                            <span style={{color: theme.primaryDark}}>WIND:</span> 
+                            <span className="font-bold" style={{color: theme.secondary}}>{weather ? formatWind(weather) : '---'}</span>
+                        </div>
+                        <div className="flex justify-between mb-1">
+                            <span style={{color: theme.primaryDark}}>VIS:</span> 
+                            <span className="font-bold" style={{color: theme.secondary}}>{weather ? `${weather.visibilityKm} KM` : '---'}</span>
+                        </div>
+                        <div className="flex justify-between mb-1">
+                            <span style={{color: theme.primaryDark}}>WX:</span> 
+                            <span className="font-bold truncate ml-2" style={{color: weather && isSevereWeather(weather) ? '#ffcc00' : theme.secondary}}>{weather ? formatSky(weather) : '---'}</span>
+                        </div>
+                         <div className="flex justify-between">
+                            <span style={{color: theme.primaryDark}}>CONF:</span> 
+                            <span className="font-bold" style={{color: theme.secondary}}>99.9%</span>
+                        </div>
                     </HudBox>
-                    <HudBox className="bg-black/70 text-xs" style={{borderColor: !isChristmas ? '#ff0000' : theme.primaryDark}} themeColor={!isChristmas ? '#ff0000' : theme.primary} themeDark={!isChristmas ? '#cc0000' : theme.primaryDark} themeLight={!isChristmas ? '#ff4444' : theme.primaryLight}>
-                        {isChristmas ? (
-                          <>
-                            <div className="text-[10px] mb-1" style={{color: theme.primaryDark}}>SECTOR:</div>
-                            <div className="font-bold text-sm text-white mb-1">{santa.currentRegion}</div>
-                            <div className="text-[10px]" style={{color: theme.primary}}>LOC:</div>
-                            <div className="font-bold text-xs text-white truncate">{santa.locationName}</div>
-                          </>
-                        ) : (
-                          <>
-                            <div className="text-[10px] mb-1 text-red-400">SECTOR:</div>
-                            <div className="font-bold text-sm text-red-500 glitch-text mb-1">UNKNOWN</div>
-                            <div className="text-[10px] text-red-400">STATUS:</div>
-                            <div className="font-bold text-xs text-red-500 glitch-text">INACTIVE</div>
-                          </>
-                        )}
+                    <HudBox className="bg-black/70 text-xs" style={{borderColor: theme.primaryDark}}>
+                        <div className="text-[10px] mb-1" style={{color: theme.primaryDark}}>SECTOR:</div>
+                        <div className="font-bold text-sm text-white mb-1">{santa.currentRegion}</div>
+                        <div className="text-[10px]" style={{color: theme.primary}}>LOC:</div>
+                        <div className="font-bold text-xs text-white truncate">{santa.locationName}</div>
                     </HudBox>
                  </div>
                  
+                 {/* Sled-cam (when docked on this side) */}
+                 {sledCam.side === 'RIGHT' && sledCamPanel}
+
+                 {/* Next Stop / ETA */}
+                 <HudBox title="NEXT STOP" className="text-xs" style={{borderColor: theme.primaryDark}}>
+                    {nextStop ? (
+                      <>
+                        <div className="flex justify-between items-baseline mb-1">
+                            <button className="font-bold text-lg text-white truncate hover:underline" onClick={() => flyTo(nextStop.station)} title="Fly to station">{nextStop.station.name}</button>
+                            <span className="text-[9px]" style={{color: theme.primaryDark}}>{nextStop.station.region}</span>
+                        </div>
+                        <div className="text-2xl font-bold tabular-nums mb-1" style={{color: theme.secondary, textShadow: `0 0 10px ${theme.glow}`}}>
+                            T-{formatCountdown(nextStop.eta - currentTime.getTime())}
+                        </div>
+                        <div className="flex justify-between text-[10px] mb-1">
+                            <span style={{color: theme.primaryDark}}>ETA (UTC):</span>
+                            <span className="font-bold tabular-nums" style={{color: theme.secondary}}>{nextStop.etaUtc}</span>
+                        </div>
+                        <div className="flex justify-between text-[10px] mb-1">
+                            <span style={{color: theme.primaryDark}}>ETA (LOCAL):</span>
+                            <span className="font-bold tabular-nums" style={{color: theme.secondary}}>{nextStop.etaLocal}</span>
+                        </div>
+                        <div className="flex justify-between text-[10px]">
+                            <span style={{color: theme.primaryDark}}>RANGE:</span>
+                            <span className="font-bold tabular-nums" style={{color: theme.secondary}}>{Math.round(nextStop.distanceKm).toLocaleString()} KM</span>
+                        </div>
+                      </>
+                    ) : (
+                      <>
+                        <div className="font-bold text-lg text-white mb-1">MISSION COMPLETE</div>
+                        <div className="flex justify-between text-[10px]">
+                            <span style={{color: theme.primaryDark}}>STATUS:</span>
+                            <span className="font-bold" style={{color: theme.secondary}}>RTB // NORTH POLE</span>
+                        </div>
+                      </>
+                    )}
+                 </HudBox>
+                 
+                 {/* Replay / Simulation Control */}
+                 <ClockControl now={currentTime} clockState={clockState} />
+                 
                  {/* View Mode Selectors */}
                  <div className="flex flex-col gap-2">
                      <span className="text-[10px] uppercase" style={{color: theme.primaryDark}}>Optical Spectrum</span>
-                     <div className="grid grid-cols-3 gap-1">
+                     <div className="grid grid-cols-5 gap-1">
                         {Object.values(ViewMode).map(mode => {
                             const isActive = viewMode === mode;
-                            const modeTheme = mode === ViewMode.THERMAL ? '#ff6600' : (mode === ViewMode.NIGHT_VISION ? '#00ff00' : '#00ffff');
+                            const modeTheme = getTheme(mode).primary;
                             return (
                               <button 
                                   key={mode} 
                                   onClick={() => setViewMode(mode)}
-                                  className="px-1 py-2 text-[9px] border transition-all"
+                                  className="px-1 py-2 text-[9px] leading-tight border transition-all"
                                   style={{
                                     backgroundColor: isActive ? modeTheme + '20' : '#00000080',
                                     borderColor: isActive ? modeTheme : theme.primaryDark + '50',
@@ -488,14 +486,27 @@ const App: React.FC = () => {
                                     boxShadow: isActive ? `0 0 10px ${modeTheme}50` : 'none'
                                   }}
                               >
-                                  {mode}
+                                  {mode.replace('_', ' ')}
                               </button>
                             );
                         })}
                      </div>
                  </div>
                  
-                 <HudBox title="SYSTEM DIAGNOSTICS" className="mt-2 text-[10px] border-2" style={{borderColor: theme.primaryDark + '50'}} themeColor={theme.primary} themeDark={theme.primaryDark} themeLight={theme.primaryLight}>
+                 {/* Camera / Globe Rotation */}
+                 <GlobeControl
+                    cameraMode={cameraMode}
+                    onCameraModeChange={changeCameraMode}
+                    stations={getTrackingRoute()}
+                    flyTarget={flyTarget}
+                    onFlyTo={flyTo}
+                    rotation={globeRotation}
+                    onRotationChange={setGlobeRotation}
+                    overlays={overlays}
+                    onOverlaysChange={setOverlays}
+                 />
+                 
+                 <HudBox title="SYSTEM DIAGNOSTICS" className="mt-2 text-[10px] border-2" style={{borderColor: theme.primaryDark + '50'}}>
                     <div className="flex justify-between items-center mb-2 pb-2" style={{borderBottom: `1px solid ${theme.primaryDark}30`, color: theme.primaryDark}}>
                         <span className="flex items-center gap-2">
                           <span className="w-2 h-2 bg-green-500 rounded-full animate-pulse shadow-[0_0_8px_rgba(34,197,94,0.8)]"></span>
@@ -519,6 +530,19 @@ const App: React.FC = () => {
                           ))}
                         </div>
                     </div>
+                    <div className="flex justify-between items-center mb-2 pb-2" style={{borderBottom: `1px solid ${theme.primaryDark}30`, color: theme.primaryDark}}>
+                        <span>ROUTE</span>
+                        <span className={`font-bold ${routeStatus.startsWith('ERROR') ? 'text-red-400' : ''}`} style={routeStatus.startsWith('ERROR') ? {} : {color: theme.secondary}}>{routeStatus}</span>
+                    </div>
+                    {routeIssues.length > 0 && (
+                      <ul className="mb-2 pb-2 space-y-0.5 text-[9px] text-red-400 break-words max-h-24 overflow-y-auto pointer-events-auto" style={{borderBottom: `1px solid ${theme.primaryDark}30`}}>
+                        {routeIssues.map((issue, i) => <li key={i}>! {issue}</li>)}
+                      </ul>
+                    )}
+                    <div className="flex justify-between items-center mb-2 pb-2" style={{borderBottom: `1px solid ${theme.primaryDark}30`, color: theme.primaryDark}}>
+                        <span>STORAGE</span>
+                        <span className={`font-bold ${storageError ? 'text-red-400' : ''}`} style={storageError ? {} : {color: theme.secondary}}>{hydrated ? persistence.backend() : 'RESTORING'}{storageError ? ` // ${storageError}` : ''}</span>
+                    </div>
                     <div className="flex justify-between items-center" style={{color: theme.primaryDark}}>
                         <span>CPU LOAD</span>
                         <span className="font-mono" style={{color: theme.secondary}}>47%</span>
@@ -529,6 +553,7 @@ const App: React.FC = () => {
         </div>
       </div>
     </div>
+    </ThemeProvider>
   );
 };
 
@@ -0,0 +1,78 @@
+import React from 'react';
+import HudBox from './DataPanel';
+import { useTheme } from './ThemeContext';
+import { useToggleStyle } from './HudStyles';
+import { missionClock, getReplayWindow, PLAYBACK_RATES, ClockState } from '../services/missionClock';
+
+interface ClockControlProps {
+  now: Date;
+  clockState: ClockState;
+}
+
+// Replay / simulation control for scrubbing through the Dec 24 10:00Z -> Dec 26 12:00Z mission window
+const ClockControl: React.FC<ClockControlProps> = ({ now, clockState }) => {
+  const { primary: themeColor, primaryDark: themeDark, primaryLight: themeLight } = useTheme();
+  const missionWindow = getReplayWindow(now);
+  const span = missionWindow.end.getTime() - missionWindow.start.getTime();
+  const progress = Math.min(1, Math.max(0, (now.getTime() - missionWindow.start.getTime()) / span));
+  const isSimulated = clockState.mode === 'SIMULATED';
+
+  const buttonStyle = useToggleStyle();
+
+  const handleScrub = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const t = missionWindow.start.getTime() + (Number(e.target.value) / 1000) * span;
+    missionClock.seek(new Date(t));
+  };
+
+  return (
+    <HudBox title="MISSION CLOCK" className="text-[10px]">
+      <div className="flex justify-between items-center mb-2">
+        <span style={{color: themeDark}}>{isSimulated ? 'SIM TIME:' : 'LIVE TIME:'}</span>
+        <span className="tabular-nums font-bold" style={{color: isSimulated ? '#ffcc00' : themeLight}}>
+          {now.toISOString().slice(5, 19).replace('T', ' ')}Z
+        </span>
+      </div>
+
+      <input
+        type="range"
+        min={0}
+        max={1000}
+        value={Math.round(progress * 1000)}
+        onChange={handleScrub}
+        className="w-full mb-2"
+        style={{accentColor: themeColor}}
+      />
+
+      <div className="grid grid-cols-3 gap-1 mb-1">
+        <button className="px-1 py-1 text-[9px] border transition-all" style={buttonStyle(!isSimulated)} onClick={() => missionClock.goLive()}>
+          LIVE
+        </button>
+        <button
+          className="px-1 py-1 text-[9px] border transition-all"
+          style={buttonStyle(isSimulated && !clockState.paused)}
+          onClick={() => isSimulated ? missionClock.play() : missionClock.simulate(missionWindow.start)}
+        >
+          {isSimulated ? 'PLAY' : 'REPLAY'}
+        </button>
+        <button className="px-1 py-1 text-[9px] border transition-all" style={buttonStyle(isSimulated && clockState.paused)} onClick={() => missionClock.pause()} disabled={!isSimulated}>
+          PAUSE
+        </button>
+      </div>
+
+      <div className="grid grid-cols-5 gap-1">
+        {PLAYBACK_RATES.map(rate => (
+          <button
+            key={rate}
+            className="px-1 py-1 text-[9px] border transition-all"
+            style={buttonStyle(isSimulated && clockState.rate === rate)}
+            onClick={() => isSimulated ? missionClock.setRate(rate) : missionClock.simulate(now, rate)}
+          >
+            {rate}x
+          </button>
+        ))}
+      </div>
+    </HudBox>
+  );
+};
+
+export default ClockControl;
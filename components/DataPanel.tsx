@@ -1,18 +1,17 @@
 
 import React from 'react';
+import { useTheme } from './ThemeContext';
 
 interface HudBoxProps {
   title?: string;
   children: React.ReactNode;
   className?: string;
   accent?: boolean;
-  themeColor?: string;
-  themeDark?: string;
-  themeLight?: string;
   style?: React.CSSProperties;
 }
 
-const HudBox: React.FC<HudBoxProps> = ({ title, children, className = "", accent = true, themeColor = '#00ffff', themeDark = '#0099aa', themeLight = '#44ffff', style = {} }) => {
+const HudBox: React.FC<HudBoxProps> = ({ title, children, className = "", accent = true, style = {} }) => {
+  const { primary: themeColor, primaryDark: themeDark, primaryLight: themeLight } = useTheme();
   return (
     <div className={`bg-[#051a1a]/80 border backdrop-blur-md p-3 relative ${className}`} style={{...style, borderColor: style.borderColor || (themeDark + '60')}}>
          {/* Corner Accents */}
@@ -0,0 +1,117 @@
+import React from 'react';
+import HudBox from './DataPanel';
+import { useTheme } from './ThemeContext';
+import { useToggleStyle } from './HudStyles';
+import { CameraMode, GlobeRotation, GlobeOverlays, TrackingLocation } from '../types';
+
+// Camera modes in keyboard order (keys 1-4; C cycles)
+export const CAMERA_MODES: { mode: CameraMode, label: string, key: string }[] = [
+  { mode: CameraMode.FREE, label: 'FREE', key: '1' },
+  { mode: CameraMode.FOLLOW, label: 'FOLLOW', key: '2' },
+  { mode: CameraMode.FLY_TO, label: 'FLY-TO', key: '3' },
+  { mode: CameraMode.CINEMATIC, label: 'CINEMA', key: '4' }
+];
+
+// Globe rotation choices: real Earth rotation, or a free spin (0 = hold still)
+const GLOBE_ROTATIONS: { label: string, rotation: GlobeRotation }[] = [
+  { label: 'SIDEREAL', rotation: { mode: 'SIDEREAL' } },
+  { label: 'HOLD', rotation: { mode: 'SPIN', degPerSecond: 0 } },
+  { label: '1°/S', rotation: { mode: 'SPIN', degPerSecond: 1 } },
+  { label: '6°/S', rotation: { mode: 'SPIN', degPerSecond: 6 } }
+];
+
+const OVERLAY_TOGGLES: { key: keyof GlobeOverlays, label: string }[] = [
+  { key: 'graticule', label: 'GRID' },
+  { key: 'borders', label: 'BORDERS' },
+  { key: 'timezones', label: 'TZ' },
+  { key: 'dateLine', label: 'DATE LN' },
+  { key: 'midnight', label: 'MIDNIGHT' },
+  { key: 'weather', label: 'WX' }
+];
+
+const sameRotation = (a: GlobeRotation, b: GlobeRotation) =>
+  a.mode === b.mode && (a.mode === 'SIDEREAL' || (b.mode === 'SPIN' && a.degPerSecond === b.degPerSecond));
+
+interface GlobeControlProps {
+  cameraMode: CameraMode;
+  onCameraModeChange: (mode: CameraMode) => void;
+  stations: TrackingLocation[];
+  flyTarget: TrackingLocation | null;
+  onFlyTo: (station: TrackingLocation) => void;
+  rotation: GlobeRotation;
+  onRotationChange: (rotation: GlobeRotation) => void;
+  overlays: GlobeOverlays;
+  onOverlaysChange: (overlays: GlobeOverlays) => void;
+}
+
+// Camera mode, fly-to station picker, globe rotation and overlay toggles
+const GlobeControl: React.FC<GlobeControlProps> = ({ cameraMode, onCameraModeChange, stations, flyTarget, onFlyTo, rotation, onRotationChange, overlays, onOverlaysChange }) => {
+  const { primary: themeColor, primaryDark: themeDark } = useTheme();
+
+  const buttonStyle = useToggleStyle();
+
+  const handleFlyTo = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const station = stations.find(s => s.name === e.target.value);
+    if (station) onFlyTo(station);
+  };
+
+  return (
+    <HudBox title={`CAMERA // ${cameraMode === CameraMode.FLY_TO && flyTarget ? flyTarget.name : cameraMode}`} className="text-[10px]">
+      <div className="grid grid-cols-4 gap-1 mb-2">
+        {CAMERA_MODES.map(({ mode, label, key }) => (
+          <button
+            key={mode}
+            className="px-1 py-1 text-[9px] border transition-all"
+            style={buttonStyle(cameraMode === mode)}
+            onClick={() => onCameraModeChange(mode)}
+            title={`Key ${key}`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      <select
+        value={flyTarget ? flyTarget.name : ''}
+        onChange={handleFlyTo}
+        className="w-full mb-2 px-1 py-1 text-[9px] border bg-black/60 outline-none"
+        style={{borderColor: themeDark + '50', color: themeColor}}
+      >
+        <option value="" disabled>FLY TO STATION...</option>
+        {stations.map(station => (
+          <option key={station.name} value={station.name}>{station.name} // {station.region}</option>
+        ))}
+      </select>
+
+      <div className="mb-1" style={{color: themeDark}}>GLOBE ROTATION</div>
+      <div className="grid grid-cols-4 gap-1 mb-2">
+        {GLOBE_ROTATIONS.map(option => (
+          <button
+            key={option.label}
+            className="px-1 py-1 text-[9px] border transition-all"
+            style={buttonStyle(sameRotation(rotation, option.rotation))}
+            onClick={() => onRotationChange(option.rotation)}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="mb-1" style={{color: themeDark}}>OVERLAYS</div>
+      <div className="grid grid-cols-3 gap-1">
+        {OVERLAY_TOGGLES.map(({ key, label }) => (
+          <button
+            key={key}
+            className="px-0.5 py-1 text-[8px] border transition-all"
+            style={buttonStyle(overlays[key])}
+            onClick={() => onOverlaysChange({ ...overlays, [key]: !overlays[key] })}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+    </HudBox>
+  );
+};
+
+export default GlobeControl;
@@ -1,10 +1,19 @@
 
-import React, { useRef, useMemo, useEffect, Suspense, useState } from 'react';
-import { Canvas, useFrame, useLoader, useThree, extend } from '@react-three/fiber';
-import { OrbitControls, Stars, PerspectiveCamera } from '@react-three/drei';
+import React, { useRef, useMemo, useEffect, useState, Suspense } from 'react';
+import { Canvas, useFrame, useThree, extend } from '@react-three/fiber';
+import { OrbitControls, Stars, PerspectiveCamera, Html } from '@react-three/drei';
 import * as THREE from 'three';
-import { TextureLoader } from 'three';
-import { ViewMode } from '../types';
+import { useTheme } from './ThemeContext';
+import SleighModel from './SleighModel';
+import { missionClock, getReplayWindow } from '../services/missionClock';
+import { useMissionClock } from '../hooks/useMissionClock';
+import { getSubsolarPoint, getSiderealAngle } from '../services/solar';
+import { formatLocalTime, formatUtcTime } from '../services/timezone';
+import { isNorthPole, StationSchedule } from '../services/trackingService';
+import { pickTextureResolution, loadEarthTextures, createProceduralEarth, EarthImageryStatus, EarthTextures } from '../services/earthTextures';
+import { getGraticule, getTimezoneBands, getTimezoneBoundaries, getDateLine, getBandDate, getMidnightLongitude, loadBorders, BandDate } from '../services/geoOverlays';
+import type { WeatherSystem } from '../services/weatherProvider';
+import { GlobeRotation, CameraMode, TrackingLocation, GlobeOverlays, ViewMode } from '../types';
 
 extend({ ThreeLine: THREE.Line });
 
@@ -18,23 +27,35 @@ const latLonToVector3 = (lat: number, lon: number, radius: number) => {
     return new THREE.Vector3(x, y, z);
 }
 
+// Visited stations that can glow on the night side (the route has ~30; extras don't glow)
+const MAX_VISITED_GLOWS = 64;
+const NO_VISITS: [number, number][] = [];
+
 // Custom Shader for the requested "Thermal Map" look
 const ThermalEarthShader = {
   uniforms: {
     map: { value: null },
     specularMap: { value: null }, // Used as land/water mask (Black=Land, White=Ocean)
     sunDirection: { value: new THREE.Vector3(1, 0, 0) },
-    viewMode: { value: 0.0 }, // 0: Optical, 1: Thermal, 2: Night Vision
-    time: { value: 0.0 }
+    viewMode: { value: 0.0 }, // 0: Optical, 1: Thermal, 2: Night Vision, 3: Lidar, 4: Satellite
+    tint: { value: new THREE.Color('#ffffff') }, // Theme colour for line-art modes
+    time: { value: 0.0 },
+    nightMap: { value: null }, // City lights (greyscale)
+    hasNightMap: { value: 0.0 },
+    nightGain: { value: 0.0 }, // Theme's city-lights gain, 0 = off
+    visitedStations: { value: [] }, // Unit vectors in the Earth's own frame
+    visitedCount: { value: 0 }
   },
   vertexShader: `
     varying vec2 vUv;
     varying vec3 vNormal;
     varying vec3 vViewPosition;
     varying vec3 vWorldPosition;
+    varying vec3 vSurface;
 
     void main() {
       vUv = uv;
+      vSurface = normalize(position);
       vec4 worldPosition = modelMatrix * vec4(position, 1.0);
       vWorldPosition = worldPosition.xyz;
       
@@ -46,15 +67,24 @@ const ThermalEarthShader = {
     }
   `,
   fragmentShader: `
+    #define MAX_VISITED ${MAX_VISITED_GLOWS}
+
     uniform sampler2D map;
     uniform sampler2D specularMap;
-    uniform vec3 sunDirection; // In World Space
-    uniform float viewMode; // 0.0 = Optical, 1.0 = Thermal, 2.0 = Night Vision
+    uniform vec3 sunDirection; // In View Space (normals are view space too)
+    uniform float viewMode; // 0.0 = Optical, 1.0 = Thermal, 2.0 = Night Vision, 3.0 = Lidar, 4.0 = Satellite
+    uniform vec3 tint;
     uniform float time;
+    uniform sampler2D nightMap;
+    uniform float hasNightMap;
+    uniform float nightGain;
+    uniform vec3 visitedStations[MAX_VISITED];
+    uniform int visitedCount;
     
     varying vec2 vUv;
     varying vec3 vNormal;
     varying vec3 vWorldPosition;
+    varying vec3 vSurface;
 
     // Magma Palette Helper for Thermal
     vec3 getThermalColor(float value) {
@@ -71,6 +101,25 @@ const ThermalEarthShader = {
         return col;
     }
 
+    // Anti-aliased iso-lines of a value at the given spacing
+    float isoLine(float value, float spacing) {
+        float v = value / spacing;
+        float dist = abs(fract(v - 0.5) - 0.5);
+        return 1.0 - smoothstep(0.0, fwidth(v) * 1.5, dist);
+    }
+
+    // Night-side emission: the city-lights texture plus a brighter glow around every
+    // station Santa has already delivered to (about a degree across)
+    float nightEmission(vec3 surface) {
+        float lights = hasNightMap > 0.5 ? texture2D(nightMap, vUv).r : 0.0;
+        float glow = 0.0;
+        for (int i = 0; i < MAX_VISITED; i++) {
+            if (i >= visitedCount) break;
+            glow += exp(-(1.0 - dot(surface, visitedStations[i])) * 4000.0);
+        }
+        return lights + min(glow, 1.5);
+    }
+
     void main() {
       // Sample Textures
       vec4 texColor = texture2D(map, vUv);
@@ -90,16 +139,10 @@ const ThermalEarthShader = {
         // --- OPTICAL MODE (Realistic) ---
         vec3 dayColor = texColor.rgb;
         
-        // City Lights (Only on Land)
+        // City Lights, sodium-warm, fading in across the terminator
         vec3 nightLights = vec3(0.0);
-        if (oceanMask < 0.1) {
-            // Simple logic: brighter terrain textures = likely cities (gray/white areas), darker = forests
-            float brightness = dot(texColor.rgb, vec3(0.33, 0.33, 0.33));
-            // Invert logic for standard maps where cities are grey/white but forests are dark green?
-            // Usually we need a dedicated night lights texture, but here is a procedural approximation
-            // Show lights in mid-bright land areas (cities), not super bright (deserts) or super dark
-            float cityMask = smoothstep(0.3, 0.6, brightness); 
-            nightLights = vec3(1.0, 0.8, 0.4) * cityMask * 0.8; 
+        if (nightGain > 0.0) {
+            nightLights = vec3(1.0, 0.8, 0.45) * nightEmission(normalize(vSurface)) * nightGain;
         }
         
         // Mix Day and Night
@@ -144,7 +187,7 @@ const ThermalEarthShader = {
         float scan = sin(vUv.y * 800.0 + time * 5.0) * 0.03;
         finalColor += vec3(scan);
 
-      } else {
+      } else if (viewMode < 2.5) {
         // --- NIGHT VISION MODE (Phosphor Green) ---
         
         float luminance = dot(texColor.rgb, vec3(0.299, 0.587, 0.114));
@@ -166,6 +209,46 @@ const ThermalEarthShader = {
         // Night Vision Rim Light
         float rim = 1.0 - max(0.0, dot(vec3(0,0,1), normal));
         finalColor += vec3(0.0, 0.5, 0.0) * pow(rim, 2.0);
+
+        // City lights on the night side, amplified by the intensifier and blooming to white-green
+        if (nightGain > 0.0) {
+            float lights = nightEmission(normalize(vSurface)) * nightGain * (1.0 - terminator);
+            finalColor += vec3(0.35, 1.0, 0.35) * lights * 0.6;
+        }
+
+      } else if (viewMode < 3.5) {
+        // --- LIDAR MODE (Contour Wireframe) ---
+        float land = 1.0 - oceanMask;
+        float brightness = dot(texColor.rgb, vec3(0.299, 0.587, 0.114));
+
+        // Coastlines where the land mask flips, terrain contours from brightness on land
+        float coast = clamp(fwidth(land) * 3.0, 0.0, 1.0);
+        float contours = isoLine(brightness, 0.08) * land * 0.5;
+        // 10 degree graticule
+        float grid = max(isoLine(vUv.x * 360.0, 10.0), isoLine(vUv.y * 180.0, 10.0)) * 0.15;
+
+        // Scanner sweep travelling around the globe
+        float sweep = pow(fract(vUv.x - time * 0.05), 24.0);
+
+        float lines = max(max(coast, contours), grid);
+        finalColor = tint * lines * (0.7 + sweep * 0.8) + tint * 0.04 * land;
+
+      } else {
+        // --- SATELLITE MODE (High-Contrast True Colour) ---
+        vec3 sat = texColor.rgb;
+        float luminance = dot(sat, vec3(0.299, 0.587, 0.114));
+
+        // Stretch saturation and contrast
+        sat = mix(vec3(luminance), sat, 1.6);
+        sat = clamp((sat - 0.08) * 1.5, 0.0, 1.0);
+
+        // Hard terminator and no city lights: the night side is simply dark
+        float day = smoothstep(-0.05, 0.05, sunIntensity);
+        finalColor = sat * mix(0.08, 1.0, day);
+
+        // Crisp white coastlines
+        float coast = clamp(fwidth(oceanMask) * 3.0, 0.0, 1.0);
+        finalColor = mix(finalColor, vec3(1.0), coast * 0.8);
       }
 
       gl_FragColor = vec4(finalColor, 1.0);
@@ -175,42 +258,228 @@ const ThermalEarthShader = {
 
 // --- Earth Components ---
 
-const Earth = ({ viewMode }: { viewMode: ViewMode }) => {
+// Earth-fixed reference frame. Everything positioned by lat/lon (the textured globe,
+// markers, route, trajectory) lives inside this one group, so they can never drift
+// apart, and the Earth shader lights it from the subsolar point in the same frame.
+const EarthFrame = ({ rotation, frameRef, children }: { rotation: GlobeRotation, frameRef: React.RefObject<THREE.Group | null>, children: React.ReactNode }) => {
+    useFrame((_, delta) => {
+        if (!frameRef.current) return;
+        if (rotation.mode === 'SIDEREAL') {
+            frameRef.current.rotation.y = getSiderealAngle(missionClock.now()) * (Math.PI / 180);
+        } else {
+            // Continue from wherever the globe currently is
+            frameRef.current.rotation.y += rotation.degPerSecond * (Math.PI / 180) * delta;
+        }
+    });
+
+    return <group ref={frameRef}>{children}</group>;
+};
+
+// --- Camera ---
+
+const FLY_DURATION = 2.5;  // Seconds for a fly-to transition
+const FLY_DISTANCE = 6;    // Camera distance once over the station
+const FOLLOW_RATE = 2;     // Higher = tighter follow
+
+const easeInOutCubic = (t: number) => t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2;
+
+// Drives the camera in the non-FREE modes. The globe turns underneath, so targets are
+// taken through the Earth frame's current rotation each frame. The camera always looks
+// at the centre, which keeps it consistent with OrbitControls when switching back.
+const CameraRig = ({ mode, santaPosition, target, frameRef }: { mode: CameraMode, santaPosition: [number, number], target: [number, number] | null, frameRef: React.RefObject<THREE.Group | null> }) => {
+    const { camera } = useThree();
+    const flight = useRef<{ from: THREE.Vector3, fromDistance: number, start: number } | null>(null);
+
+    // Start a new transition whenever the mode or fly-to target changes
+    useEffect(() => { flight.current = null; }, [mode, target?.[0], target?.[1]]);
+
+    useFrame(({ clock }, delta) => {
+        if (mode === CameraMode.FREE || !frameRef.current) return;
+        const distance = camera.position.length();
+        const current = camera.position.clone().normalize();
+
+        if (mode === CameraMode.CINEMATIC) {
+            // Slow orbit with a gentle bob in latitude and range
+            const t = clock.getElapsedTime();
+            const spherical = new THREE.Spherical().setFromVector3(camera.position);
+            const ease = 1 - Math.exp(-delta * 0.5);
+            spherical.theta += delta * 0.08;
+            spherical.phi += (Math.PI / 2 - Math.sin(t * 0.05) * 0.5 - spherical.phi) * ease;
+            spherical.radius += (8 + Math.sin(t * 0.07) * 1.2 - spherical.radius) * ease;
+            camera.position.setFromSpherical(spherical);
+            camera.lookAt(0, 0, 0);
+            return;
+        }
+
+        const [lat, lon] = mode === CameraMode.FOLLOW || !target ? santaPosition : target;
+        const targetDir = latLonToVector3(lat, lon, 1).applyQuaternion(frameRef.current.quaternion);
+
+        if (mode === CameraMode.FLY_TO) {
+            if (!flight.current) {
+                flight.current = { from: current, fromDistance: distance, start: clock.getElapsedTime() };
+            }
+            const progress = Math.min(1, (clock.getElapsedTime() - flight.current.start) / FLY_DURATION);
+            if (progress < 1) {
+                const eased = easeInOutCubic(progress);
+                const arc = new THREE.Quaternion().slerp(new THREE.Quaternion().setFromUnitVectors(flight.current.from, targetDir), eased);
+                const range = THREE.MathUtils.lerp(flight.current.fromDistance, FLY_DISTANCE, eased);
+                camera.position.copy(flight.current.from).applyQuaternion(arc).multiplyScalar(range);
+                camera.lookAt(0, 0, 0);
+                return;
+            }
+        }
+
+        // FOLLOW, or holding over a station after the fly-to: ease onto the target as it moves
+        current.lerp(targetDir, 1 - Math.exp(-delta * FOLLOW_RATE)).normalize();
+        camera.position.copy(current).multiplyScalar(distance);
+        camera.lookAt(0, 0, 0);
+    });
+
+    return null;
+};
+
+// Lat/lon points on land, read from the ocean mask (white = ocean) about every stepDeg degrees
+const sampleLandPoints = (image: CanvasImageSource, stepDeg: number, radius: number): Float32Array => {
+    const width = 720;
+    const height = 360;
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return new Float32Array(0);
+    ctx.drawImage(image, 0, 0, width, height);
+    const pixels = ctx.getImageData(0, 0, width, height).data;
+
+    const positions: number[] = [];
+    for (let lat = -90 + stepDeg / 2; lat < 90; lat += stepDeg) {
+        // Widen the longitude step towards the poles so the cloud stays evenly spaced
+        const lonStep = stepDeg / Math.max(0.05, Math.cos(lat * Math.PI / 180));
+        for (let lon = -180; lon < 180; lon += lonStep) {
+            const x = Math.floor(((lon + 180) / 360) * width) % width;
+            const y = Math.min(height - 1, Math.floor(((90 - lat) / 180) * height));
+            if (pixels[(y * width + x) * 4] < 128) {
+                const v = latLonToVector3(lat, lon, radius);
+                positions.push(v.x, v.y, v.z);
+            }
+        }
+    }
+    return new Float32Array(positions);
+};
+
+// Lidar returns: a point cloud over the land masses, pulsing as the scanner sweeps
+const LidarPointCloud = ({ landMask, color }: { landMask: THREE.Texture, color: string }) => {
+    const materialRef = useRef<THREE.PointsMaterial>(null);
+
+    const geometry = useMemo(() => {
+        const geo = new THREE.BufferGeometry();
+        try {
+            geo.setAttribute('position', new THREE.BufferAttribute(sampleLandPoints(landMask.image as CanvasImageSource, 0.9, 2.52), 3));
+        } catch {
+            // Tainted canvas (texture served without CORS): no point cloud, the contour shader still works
+        }
+        return geo;
+    }, [landMask]);
+
+    useEffect(() => () => geometry.dispose(), [geometry]);
+
+    useFrame(({ clock }) => {
+        if (materialRef.current) {
+            materialRef.current.opacity = 0.55 + Math.sin(clock.getElapsedTime() * 2) * 0.15;
+        }
+    });
+
+    return (
+        <points geometry={geometry}>
+            <pointsMaterial ref={materialRef} color={color} size={0.012} sizeAttenuation transparent opacity={0.6} blending={THREE.AdditiveBlending} depthWrite={false} />
+        </points>
+    );
+};
+
+const describeError = (err: unknown): string => err instanceof Error ? err.message : String(err ?? 'load failed');
+
+// Loads the imagery for this device (stepping down a size on failure, then painting the
+// procedural globe) and shows a wireframe placeholder until something is ready
+const Earth = ({ visited, onImageryStatus }: { visited: [number, number][], onImageryStatus?: (status: EarthImageryStatus) => void }) => {
+  const theme = useTheme();
+  const { gl } = useThree();
+  const [textures, setTextures] = useState<EarthTextures | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const resolution = pickTextureResolution({
+      maxTextureSize: gl.capabilities.maxTextureSize,
+      pixelRatio: window.devicePixelRatio || 1,
+      deviceMemory: (navigator as Navigator & { deviceMemory?: number }).deviceMemory
+    });
+    onImageryStatus?.({ state: 'LOADING', resolution });
+
+    loadEarthTextures(resolution)
+      .then(loaded => {
+        if (cancelled) return;
+        setTextures(loaded);
+        onImageryStatus?.({ state: 'READY', source: loaded.source });
+      })
+      .catch(async err => {
+        const fallback = await createProceduralEarth();
+        if (cancelled) return;
+        setTextures(fallback);
+        onImageryStatus?.({ state: 'FALLBACK', error: describeError(err) });
+      })
+      .catch(err => { if (!cancelled) onImageryStatus?.({ state: 'UNAVAILABLE', error: describeError(err) }); });
+    return () => { cancelled = true; };
+  }, [gl]);
+
+  if (!textures) {
+    return (
+      <mesh>
+        <sphereGeometry args={[2.5, 32, 16]} />
+        <meshBasicMaterial color={theme.primaryDark} wireframe transparent opacity={0.25} />
+      </mesh>
+    );
+  }
+  return <EarthSurface colorMap={textures.color} specularMap={textures.specular} nightMap={textures.lights} visited={visited} />;
+};
+
+const EarthSurface = ({ colorMap, specularMap, nightMap, visited }: { colorMap: THREE.Texture, specularMap: THREE.Texture, nightMap: THREE.Texture | null, visited: [number, number][] }) => {
+  const theme = useTheme();
   const earthRef = useRef<THREE.Mesh>(null);
   const materialRef = useRef<THREE.ShaderMaterial>(null);
   const { camera } = useThree();
-  
-  // Load Textures
-  const [colorMap, specularMap] = useLoader(TextureLoader, [
-    'https://raw.githubusercontent.com/mrdoob/three.js/master/examples/textures/planets/earth_atmos_2048.jpg',
-    'https://raw.githubusercontent.com/mrdoob/three.js/master/examples/textures/planets/earth_specular_2048.jpg'
-  ]);
+  const earthQuaternion = useMemo(() => new THREE.Quaternion(), []);
 
   const uniforms = useMemo(() => ({
     map: { value: colorMap },
     specularMap: { value: specularMap },
     sunDirection: { value: new THREE.Vector3(1, 0, 0) },
     viewMode: { value: 0.0 },
-    time: { value: 0.0 }
-  }), [colorMap, specularMap]);
+    tint: { value: new THREE.Color('#ffffff') },
+    time: { value: 0.0 },
+    nightMap: { value: nightMap },
+    hasNightMap: { value: nightMap ? 1.0 : 0.0 },
+    nightGain: { value: 0.0 },
+    visitedStations: { value: Array.from({ length: MAX_VISITED_GLOWS }, () => new THREE.Vector3()) },
+    visitedCount: { value: 0 }
+  }), [colorMap, specularMap, nightMap]);
 
-  // Update viewMode uniform when prop changes
+  // Update viewMode uniform when the theme changes
   useEffect(() => {
     if (materialRef.current) {
-        let modeVal = 0.0;
-        if (viewMode === ViewMode.THERMAL || viewMode === 'THERMAL') modeVal = 1.0;
-        if (viewMode === ViewMode.NIGHT_VISION || viewMode === 'NIGHT_VISION') modeVal = 2.0;
-        materialRef.current.uniforms.viewMode.value = modeVal;
+        materialRef.current.uniforms.viewMode.value = theme.shaderMode;
+        materialRef.current.uniforms.tint.value.set(theme.primary);
+        materialRef.current.uniforms.nightGain.value = theme.nightLights;
         materialRef.current.needsUpdate = true;
     }
-  }, [viewMode]);
+  }, [theme.shaderMode, theme.primary, theme.nightLights, uniforms]);
+
+  // Visited stations as unit vectors in the sphere's own frame (the shader glows around them)
+  useEffect(() => {
+    const count = Math.min(visited.length, MAX_VISITED_GLOWS);
+    const slots: THREE.Vector3[] = uniforms.visitedStations.value;
+    for (let i = 0; i < count; i++) slots[i].copy(latLonToVector3(visited[i][0], visited[i][1], 1));
+    uniforms.visitedCount.value = count;
+  }, [visited, uniforms]);
 
   useFrame(({ clock }) => {
-    // Rotation
-    if (earthRef.current) {
-        earthRef.current.rotation.y = clock.getElapsedTime() * 0.02; 
-    }
-    
     // Update Time Uniform
     if (materialRef.current) {
         materialRef.current.uniforms.time.value = clock.getElapsedTime();
@@ -218,19 +487,15 @@ const Earth = ({ viewMode }: { viewMode: ViewMode }) => {
 
     // Update Sun Uniform
     if (materialRef.current && materialRef.current.uniforms && materialRef.current.uniforms.sunDirection) {
-        const now = new Date();
-        const utcHours = now.getUTCHours();
-        const utcMinutes = now.getUTCMinutes();
-        const decimalHours = utcHours + (utcMinutes / 60);
-        
-        // Calculate Sun Longitude: 12:00 UTC = 0 deg.
-        const sunLong = (decimalHours - 12) * 15;
-        
-        // Convert to World Position (far away)
-        const sunPos = latLonToVector3(0, -sunLong, 100); 
+        // Sun direction from the subsolar point (declination + equation of time),
+        // taken through the Earth frame's rotation so the terminator stays put on the texture
+        const subsolar = getSubsolarPoint(missionClock.now());
+        const sunPos = latLonToVector3(subsolar.lat, subsolar.lon, 100);
+        if (earthRef.current) sunPos.applyQuaternion(earthRef.current.getWorldQuaternion(earthQuaternion));
         
         // We need this in VIEW space for the shader normal comparison
-        const sunPosView = sunPos.clone().applyMatrix4(camera.matrixWorldInverse);
+        // (a direction, so only rotate it - translating by the camera would skew the terminator)
+        const sunPosView = sunPos.clone().transformDirection(camera.matrixWorldInverse);
         
         materialRef.current.uniforms.sunDirection.value.copy(sunPosView).normalize();
     }
@@ -239,7 +504,8 @@ const Earth = ({ viewMode }: { viewMode: ViewMode }) => {
   return (
     <group>
         {/* Main Earth Sphere */}
-        <mesh ref={earthRef} rotation={[0, 0, 0]}>
+        {/* Swallows pointer events so stations on the far side can't be picked through the globe */}
+        <mesh ref={earthRef} rotation={[0, 0, 0]} onPointerOver={(e) => e.stopPropagation()} onClick={(e) => e.stopPropagation()}>
             <sphereGeometry args={[2.5, 64, 64]} />
             <shaderMaterial 
                 ref={materialRef}
@@ -253,31 +519,28 @@ const Earth = ({ viewMode }: { viewMode: ViewMode }) => {
         <mesh scale={[1.05, 1.05, 1.05]}>
              <sphereGeometry args={[2.5, 32, 32]} />
              <meshBasicMaterial 
-                color={viewMode === ViewMode.NIGHT_VISION ? "#00ff00" : (viewMode === ViewMode.THERMAL ? "#ff4400" : "#004466")} 
+                color={theme.atmosphere} 
                 transparent 
-                opacity={viewMode === ViewMode.OPTICAL ? 0.15 : 0.05} 
+                opacity={theme.atmosphereOpacity} 
                 blending={THREE.AdditiveBlending} 
                 side={THREE.BackSide} 
              />
         </mesh>
+
+        {theme.pointCloud && <LidarPointCloud landMask={specularMap} color={theme.pointCloud} />}
     </group>
   );
 };
 
-const SantaMarker = ({ position, viewMode }: { position: [number, number], viewMode: ViewMode }) => {
+const SantaMarker = ({ position }: { position: [number, number] }) => {
+    const theme = useTheme();
     const vector = useMemo(() => latLonToVector3(position[0], position[1], 2.55), [position]);
-    const groupRef = useRef<THREE.Group>(null);
     const wave1Ref = useRef<THREE.Mesh>(null);
     const wave2Ref = useRef<THREE.Mesh>(null);
     const wave3Ref = useRef<THREE.Mesh>(null);
     const coreRef = useRef<THREE.Mesh>(null);
     
-    // Rotate marker with the Earth so it stays on the correct country
     useFrame(({ clock }) => {
-        if(groupRef.current) {
-            groupRef.current.rotation.y = clock.getElapsedTime() * 0.02;
-        }
-        
         // Pulsing core
         if(coreRef.current) {
             const pulse = 1 + Math.sin(clock.getElapsedTime() * 3) * 0.3;
@@ -307,11 +570,11 @@ const SantaMarker = ({ position, viewMode }: { position: [number, number], viewM
         }
     });
 
-    const markerColor = viewMode === ViewMode.NIGHT_VISION ? "#ffff00" : "#ff0000";
-    const glowColor = viewMode === ViewMode.NIGHT_VISION ? "#ffaa00" : (viewMode === ViewMode.THERMAL ? "#ff8800" : "#ff0000");
+    const markerColor = theme.santaMarker;
+    const glowColor = theme.santaGlow;
 
     return (
-        <group ref={groupRef}>
+        <group>
              {/* Core Marker with glow */}
              <mesh ref={coreRef} position={vector}>
                 <sphereGeometry args={[0.05, 16, 16]} />
@@ -351,15 +614,148 @@ const SantaMarker = ({ position, viewMode }: { position: [number, number], viewM
     )
 }
 
-const VisitedMarkers = ({ locations, viewMode }: { locations: [number, number][], viewMode: ViewMode }) => {
+// --- Sleigh ---
+
+const SLEIGH_ALTITUDE = 2.56;
+const SLEIGH_SCALE = 0.035;    // Model is ~5.5 units nose to tail
+const SLEIGH_MAX_DISTANCE = 8; // Camera distance beyond which the ring marker takes over
+const TURN_RATE = 2.5;         // How quickly the drawn heading catches up (per second)
+const MAX_BANK = 0.6;          // Radians
+const CONTRAIL_POINTS = 160;
+const CONTRAIL_LIFETIME = 4;   // Seconds
+const NORTH = new THREE.Vector3(0, 1, 0);
+const NOSE = new THREE.Vector3(0, 0, 1); // Model's forward axis
+
+// Shortest signed difference between two angles
+const angleDelta = (from: number, to: number) => Math.atan2(Math.sin(to - from), Math.cos(to - from));
+
+// Santa on the globe: the sleigh pointed along his heading, easing round turns and banking
+// into them, with a contrail behind. Pulling the camera out past SLEIGH_MAX_DISTANCE swaps
+// it for the ring marker (the model would be a speck); the contrail stays.
+const SantaSleigh = ({ position, heading }: { position: [number, number], heading: number }) => {
+    const theme = useTheme();
     const groupRef = useRef<THREE.Group>(null);
+    const glowRef = useRef<THREE.Mesh>(null);
+    const [wide, setWide] = useState(false);
+    const target = useMemo(() => latLonToVector3(position[0], position[1], SLEIGH_ALTITUDE), [position]);
+
+    // Drawn state, eased towards the telemetry every frame
+    const state = useMemo(() => ({
+        position: target.clone(),
+        heading,
+        bank: 0,
+        lastEmit: target.clone()
+    }), []);
+    const scratch = useMemo(() => ({
+        up: new THREE.Vector3(), east: new THREE.Vector3(), north: new THREE.Vector3(),
+        forward: new THREE.Vector3(), right: new THREE.Vector3(),
+        basis: new THREE.Matrix4(), roll: new THREE.Quaternion(), tail: new THREE.Vector3()
+    }), []);
+
+    const contrail = useMemo(() => {
+        const geometry = new THREE.BufferGeometry();
+        geometry.setAttribute('position', new THREE.BufferAttribute(new Float32Array(CONTRAIL_POINTS * 3), 3));
+        geometry.setAttribute('color', new THREE.BufferAttribute(new Float32Array(CONTRAIL_POINTS * 3), 3));
+        return { geometry, born: new Float32Array(CONTRAIL_POINTS).fill(-Infinity), next: 0 };
+    }, []);
+    useEffect(() => () => contrail.geometry.dispose(), [contrail]);
+
+    const trailColor = useMemo(() => new THREE.Color(theme.sleighHeat || theme.trajectoryParticle), [theme.sleighHeat, theme.trajectoryParticle]);
+
+    useFrame(({ clock, camera }, delta) => {
+        const t = clock.getElapsedTime();
+
+        // Ring marker at wide zoom (with a little hysteresis so it doesn't flicker at the edge)
+        const distance = camera.position.length();
+        if (!wide && distance > SLEIGH_MAX_DISTANCE + 0.2) setWide(true);
+        if (wide && distance < SLEIGH_MAX_DISTANCE - 0.2) setWide(false);
+
+        // Ease position and heading; a big jump (seek) snaps and clears the trail
+        if (state.position.distanceTo(target) > 0.5) {
+            state.position.copy(target);
+            state.lastEmit.copy(target);
+            state.heading = heading;
+            contrail.born.fill(-Infinity);
+        } else {
+            state.position.lerp(target, 1 - Math.exp(-delta * 4));
+        }
+        const turn = angleDelta(state.heading, heading);
+        state.heading += turn * (1 - Math.exp(-delta * TURN_RATE));
+        state.bank += (THREE.MathUtils.clamp(turn * 1.5, -MAX_BANK, MAX_BANK) - state.bank) * (1 - Math.exp(-delta * 4));
+
+        // Local frame: up off the surface, forward along the heading (east is undefined at the poles)
+        const { up, east, north, forward, right, basis, roll, tail } = scratch;
+        up.copy(state.position).normalize();
+        east.crossVectors(NORTH, up);
+        if (east.lengthSq() < 1e-6) east.set(0, 0, -1);
+        east.normalize();
+        north.crossVectors(up, east);
+        forward.copy(north).multiplyScalar(Math.cos(state.heading)).addScaledVector(east, Math.sin(state.heading));
+        right.crossVectors(up, forward);
+
+        if (groupRef.current) {
+            groupRef.current.position.copy(state.position);
+            basis.makeBasis(right, up, forward);
+            groupRef.current.quaternion.setFromRotationMatrix(basis).multiply(roll.setFromAxisAngle(NOSE, state.bank));
+        }
+        if (glowRef.current) glowRef.current.scale.setScalar(1 + Math.sin(t * 4) * 0.15);
+
+        // Contrail: drop a puff off the tail whenever the sleigh has moved, fade each out with age
+        const positions = contrail.geometry.attributes.position as THREE.BufferAttribute;
+        const colors = contrail.geometry.attributes.color as THREE.BufferAttribute;
+        if (state.position.distanceTo(state.lastEmit) > 0.003) {
+            tail.copy(state.position).addScaledVector(forward, -SLEIGH_SCALE * 2.7);
+            tail.x += (Math.random() - 0.5) * 0.004;
+            tail.y += (Math.random() - 0.5) * 0.004;
+            tail.z += (Math.random() - 0.5) * 0.004;
+            positions.setXYZ(contrail.next, tail.x, tail.y, tail.z);
+            contrail.born[contrail.next] = t;
+            contrail.next = (contrail.next + 1) % CONTRAIL_POINTS;
+            state.lastEmit.copy(state.position);
+            positions.needsUpdate = true;
+        }
+        for (let i = 0; i < CONTRAIL_POINTS; i++) {
+            const fade = Math.max(0, 1 - (t - contrail.born[i]) / CONTRAIL_LIFETIME);
+            colors.setXYZ(i, trailColor.r * fade, trailColor.g * fade, trailColor.b * fade);
+        }
+        colors.needsUpdate = true;
+    });
+
+    return (
+        <group>
+            {/* Additive, so faded puffs simply disappear */}
+            <points geometry={contrail.geometry}>
+                <pointsMaterial size={0.025} vertexColors transparent blending={THREE.AdditiveBlending} depthWrite={false} />
+            </points>
+
+            {wide ? (
+                <SantaMarker position={position} />
+            ) : (
+                <group ref={groupRef}>
+                    <hemisphereLight args={['#ffffff', '#334455', 2]} />
+                    <group scale={SLEIGH_SCALE}>
+                        {/* Pivot on the middle of the team */}
+                        <group position={[0, 0, -1.8]}>
+                            <SleighModel heat={theme.sleighHeat} />
+                        </group>
+                    </group>
+                    {theme.sleighHeat && (
+                        <mesh ref={glowRef}>
+                            <sphereGeometry args={[0.09, 16, 16]} />
+                            <meshBasicMaterial color={theme.sleighHeat} transparent opacity={0.35} blending={THREE.AdditiveBlending} depthWrite={false} />
+                        </mesh>
+                    )}
+                </group>
+            )}
+        </group>
+    );
+};
+
+const VisitedMarkers = ({ locations }: { locations: [number, number][] }) => {
+    const theme = useTheme();
     const markersRef = useRef<THREE.Mesh[]>([]);
 
     useFrame(({ clock }) => {
-        if(groupRef.current) {
-            groupRef.current.rotation.y = clock.getElapsedTime() * 0.02;
-        }
-        
         // Animate each marker with offset pulsing
         markersRef.current.forEach((marker, i) => {
             if(marker) {
@@ -371,11 +767,11 @@ const VisitedMarkers = ({ locations, viewMode }: { locations: [number, number][]
     });
     
     // Visited pins are subtle
-    const color = viewMode === ViewMode.NIGHT_VISION ? "#ffcc00" : (viewMode === ViewMode.THERMAL ? "#ffaa00" : "#00ffff");
-    const glowColor = viewMode === ViewMode.NIGHT_VISION ? "#ffaa00" : (viewMode === ViewMode.THERMAL ? "#ff6600" : "#006666");
+    const color = theme.visitedMarker;
+    const glowColor = theme.visitedGlow;
 
     return (
-        <group ref={groupRef}>
+        <group>
             {locations.map((loc, i) => {
                  const vector = latLonToVector3(loc[0], loc[1], 2.505);
                  return (
@@ -397,15 +793,86 @@ const VisitedMarkers = ({ locations, viewMode }: { locations: [number, number][]
     )
 }
 
-const PlannedRoute = ({ route, viewMode }: { route: [number, number][], viewMode: ViewMode }) => {
-    const groupRef = useRef<THREE.Group>(null);
-    
-    useFrame(({ clock }) => {
-        if(groupRef.current) {
-            groupRef.current.rotation.y = clock.getElapsedTime() * 0.02;
-        }
-    });
+// Hover card for a station marker
+const StationTooltip = ({ schedule }: { schedule: StationSchedule }) => {
+    const theme = useTheme();
+    const { now } = useMissionClock();
+    const { station } = schedule;
+
+    return (
+        <div className="px-2 py-1 bg-black/85 border font-mono text-[9px] whitespace-nowrap pointer-events-none -translate-x-1/2 -translate-y-[130%]" style={{borderColor: theme.primary + '60', color: theme.primaryLight}}>
+            <div className="font-bold text-[11px] text-white">{station.name}</div>
+            <div className="mb-1" style={{color: theme.primaryDark}}>{station.region} // {schedule.status}</div>
+            <div>LOCAL: <span className="text-white tabular-nums">{formatLocalTime(now, station)}</span></div>
+            <div>ARR: <span className="text-white tabular-nums">{formatUtcTime(schedule.arriveAt)}</span> DEP: <span className="text-white tabular-nums">{formatUtcTime(schedule.departAt)}</span></div>
+        </div>
+    );
+};
+
+const RING_NORMAL = new THREE.Vector3(0, 0, 1);
+
+// Pickable stops: an invisible hit sphere per station (bigger than the dots, so they're
+// easy to hover), a dot for stops still to come, and a ring on the hovered / selected one
+const StationMarkers = ({ stations, selected, onSelect }: { stations: StationSchedule[], selected: string | null, onSelect?: (station: TrackingLocation) => void }) => {
+    const theme = useTheme();
+    const [hovered, setHovered] = useState<string | null>(null);
 
+    useEffect(() => {
+        document.body.style.cursor = hovered ? 'pointer' : '';
+        return () => { document.body.style.cursor = ''; };
+    }, [hovered]);
+
+    return (
+        <group>
+            {stations.map((schedule, i) => {
+                const { station } = schedule;
+                const vector = latLonToVector3(station.coordinates[0], station.coordinates[1], 2.51);
+                const facing = new THREE.Quaternion().setFromUnitVectors(RING_NORMAL, vector.clone().normalize());
+                const highlighted = hovered === station.name || selected === station.name;
+
+                return (
+                    <group key={`${i}-${station.name}`} position={vector}>
+                        {/* Visited stops are drawn by VisitedMarkers */}
+                        {schedule.status === 'PENDING' && (
+                            <mesh>
+                                <sphereGeometry args={[0.015, 8, 8]} />
+                                <meshBasicMaterial color={theme.routeGlow} transparent opacity={0.6} />
+                            </mesh>
+                        )}
+
+                        {highlighted && (
+                            <mesh quaternion={facing}>
+                                <ringGeometry args={[0.045, 0.06, 32]} />
+                                <meshBasicMaterial color={theme.primaryLight} transparent opacity={0.9} side={THREE.DoubleSide} blending={THREE.AdditiveBlending} />
+                            </mesh>
+                        )}
+
+                        <mesh
+                            visible={false}
+                            onPointerOver={(e) => { e.stopPropagation(); setHovered(station.name); }}
+                            onPointerOut={() => setHovered(current => current === station.name ? null : current)}
+                            onClick={(e) => {
+                                e.stopPropagation();
+                                if (e.delta <= 4) onSelect?.(station); // Not the end of an orbit drag
+                            }}
+                        >
+                            <sphereGeometry args={[0.06, 8, 8]} />
+                        </mesh>
+
+                        {hovered === station.name && (
+                            <Html zIndexRange={[40, 0]}>
+                                <StationTooltip schedule={schedule} />
+                            </Html>
+                        )}
+                    </group>
+                );
+            })}
+        </group>
+    );
+};
+
+const PlannedRoute = ({ route }: { route: [number, number][] }) => {
+    const theme = useTheme();
     const geometry = useMemo(() => {
         if (route.length < 2) return null;
 
@@ -436,11 +903,11 @@ const PlannedRoute = ({ route, viewMode }: { route: [number, number][], viewMode
 
     if (!geometry) return null;
 
-    const lineColor = viewMode === ViewMode.NIGHT_VISION ? "#ffaa00" : (viewMode === ViewMode.THERMAL ? "#ff8800" : "#00aaaa");
-    const glowColor = viewMode === ViewMode.NIGHT_VISION ? "#ffff00" : (viewMode === ViewMode.THERMAL ? "#ffaa44" : "#00ffff");
+    const lineColor = theme.routeLine;
+    const glowColor = theme.routeGlow;
 
     return (
-        <group ref={groupRef}>
+        <group>
             {/* Main planned route line - more visible */}
             <threeLine geometry={geometry}>
                 <lineBasicMaterial color={lineColor} opacity={0.6} transparent linewidth={2} />
@@ -454,15 +921,11 @@ const PlannedRoute = ({ route, viewMode }: { route: [number, number][], viewMode
     )
 }
 
-const Trajectory = ({ locations, currentPos, viewMode }: { locations: [number, number][], currentPos: [number, number], viewMode: ViewMode }) => {
-    const groupRef = useRef<THREE.Group>(null);
+const Trajectory = ({ locations, currentPos }: { locations: [number, number][], currentPos: [number, number] }) => {
+    const theme = useTheme();
     const particlesRef = useRef<THREE.Points>(null);
     
     useFrame(({ clock }) => {
-        if(groupRef.current) {
-            groupRef.current.rotation.y = clock.getElapsedTime() * 0.02;
-        }
-        
         // Animate flowing particles along the path
         if(particlesRef.current && particlesRef.current.geometry.attributes.position) {
             const positions = particlesRef.current.geometry.attributes.position.array as Float32Array;
@@ -484,8 +947,12 @@ const Trajectory = ({ locations, currentPos, viewMode }: { locations: [number, n
     });
 
     const { geometry: lineGeometry, particleGeometry } = useMemo(() => {
-        // Use visited locations as the complete path (don't add currentPos as it's already in visited)
-        const fullPathRaw = locations.length > 0 ? locations : [currentPos];
+        // Use visited locations as the path, extended to the sleigh while it is between stops
+        const fullPathRaw = locations.length > 0 ? [...locations] : [currentPos];
+        const last = fullPathRaw[fullPathRaw.length - 1];
+        if (last[0] !== currentPos[0] || last[1] !== currentPos[1]) {
+            fullPathRaw.push(currentPos);
+        }
         if (fullPathRaw.length < 2) return { geometry: null, particleGeometry: null };
 
         // Convert key coordinates to Vectors
@@ -538,12 +1005,12 @@ const Trajectory = ({ locations, currentPos, viewMode }: { locations: [number, n
 
     if (!lineGeometry) return null;
 
-    const lineColor = viewMode === ViewMode.NIGHT_VISION ? "#ffcc00" : (viewMode === ViewMode.THERMAL ? "#ff6600" : "#00ffff");
-    const glowColor = viewMode === ViewMode.NIGHT_VISION ? "#ffff00" : (viewMode === ViewMode.THERMAL ? "#ff8800" : "#00ccff");
-    const particleColor = viewMode === ViewMode.NIGHT_VISION ? "#ffff00" : (viewMode === ViewMode.THERMAL ? "#ffaa00" : "#ffffff");
+    const lineColor = theme.trajectoryLine;
+    const glowColor = theme.trajectoryGlow;
+    const particleColor = theme.trajectoryParticle;
 
     return (
-        <group ref={groupRef}>
+        <group>
             {/* Main trajectory line */}
             <threeLine geometry={lineGeometry}>
                 <lineBasicMaterial color={lineColor} opacity={0.7} transparent linewidth={2} />
@@ -571,31 +1038,327 @@ const Trajectory = ({ locations, currentPos, viewMode }: { locations: [number, n
     )
 }
 
-const UTCTimeDisplay = ({ viewMode }: { viewMode: ViewMode }) => {
-    const [time, setTime] = useState(new Date());
-    
+// --- Vector Overlays ---
+
+// Many polylines as one LineSegments geometry (a single draw call per layer)
+const buildLineGeometry = (lines: [number, number][][], radius: number) => {
+    const positions: number[] = [];
+    lines.forEach(line => {
+        for (let i = 0; i < line.length - 1; i++) {
+            const a = latLonToVector3(line[i][0], line[i][1], radius);
+            const b = latLonToVector3(line[i + 1][0], line[i + 1][1], radius);
+            positions.push(a.x, a.y, a.z, b.x, b.y, b.z);
+        }
+    });
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+    return geometry;
+};
+
+const Graticule = () => {
+    const theme = useTheme();
+    const geometry = useMemo(() => buildLineGeometry(getGraticule(15), 2.512), []);
+    return (
+        <lineSegments geometry={geometry}>
+            <lineBasicMaterial color={theme.primaryDark} transparent opacity={0.3} depthWrite={false} />
+        </lineSegments>
+    );
+};
+
+const CountryBorders = () => {
+    const theme = useTheme();
+    const [geometry, setGeometry] = useState<THREE.BufferGeometry | null>(null);
+
     useEffect(() => {
-        const timer = setInterval(() => setTime(new Date()), 1000);
-        return () => clearInterval(timer);
+        let cancelled = false;
+        loadBorders()
+            .then(lines => { if (!cancelled) setGeometry(buildLineGeometry(lines, 2.508)); })
+            .catch(() => {}); // The globe just goes without borders
+        return () => { cancelled = true; };
     }, []);
 
-    // Dynamic theme colors based on view mode
-    const themeColor = viewMode === ViewMode.THERMAL ? '#ff6600' : (viewMode === ViewMode.NIGHT_VISION ? '#00ff00' : '#00ffff');
-    const themeDark = viewMode === ViewMode.THERMAL ? '#cc4400' : (viewMode === ViewMode.NIGHT_VISION ? '#00aa00' : '#0099aa');
-    const themeLight = viewMode === ViewMode.THERMAL ? '#ff8844' : (viewMode === ViewMode.NIGHT_VISION ? '#44ff44' : '#44ffff');
-
-    // Approximate Subsolar Point Calculation
-    const utcHours = time.getUTCHours();
-    const utcMinutes = time.getUTCMinutes();
-    const decimalHours = utcHours + (utcMinutes / 60);
-    // 12:00 UTC = 0 deg Longitude. Earth rotates 15 deg/hr.
-    // At 12:00, (12-12)*15 = 0.
-    // At 18:00, (18-12)*15 = 90W (-90).
-    const sunLong = -((decimalHours - 12) * 15);
-    
-    // Solar Declination approx
-    const dayOfYear = Math.floor((time.getTime() - new Date(time.getFullYear(), 0, 0).getTime()) / 1000 / 60 / 60 / 24);
-    const declination = -23.44 * Math.cos((360/365) * (dayOfYear + 10) * (Math.PI/180));
+    if (!geometry) return null;
+    return (
+        <lineSegments geometry={geometry}>
+            <lineBasicMaterial color={theme.primaryLight} transparent opacity={0.4} depthWrite={false} />
+        </lineSegments>
+    );
+};
+
+const BAND_TEXTURE_WIDTH = 2048;
+
+// Bands shaded by date: lit where it is Christmas Day, dimmed where it's already over.
+// Bands overlap (island zones sit on the ocean strips), so they're painted in order into
+// one equirectangular shell, repainted only when some band's date changes.
+const TimezoneBands = () => {
+    const theme = useTheme();
+    const { now } = useMissionClock();
+    const bands = useMemo(() => getTimezoneBands(), []);
+    const year = getReplayWindow(now).start.getUTCFullYear();
+    const edges = useMemo(() => buildLineGeometry(getTimezoneBoundaries(bands, year), 2.504), [bands, year]);
+    const dates = bands.map(band => getBandDate(band, now)).join(',');
+
+    const texture = useMemo(() => {
+        const canvas = document.createElement('canvas');
+        canvas.width = BAND_TEXTURE_WIDTH;
+        canvas.height = BAND_TEXTURE_WIDTH / 2;
+        return new THREE.CanvasTexture(canvas);
+    }, []);
+    useEffect(() => () => texture.dispose(), [texture]);
+
+    useEffect(() => {
+        const canvas = texture.image as HTMLCanvasElement;
+        const ctx = canvas.getContext('2d');
+        if (!ctx) return;
+        const states = dates.split(',') as BandDate[];
+        const scale = canvas.width / 360;
+
+        ctx.clearRect(0, 0, canvas.width, canvas.height);
+        bands.forEach((band, i) => band.boxes.forEach(({ west, east, south, north }) => {
+            const x = (west + 180) * scale;
+            const y = (90 - north) * scale;
+            const width = (east - west) * scale;
+            const height = (north - south) * scale;
+            ctx.clearRect(x, y, width, height);
+            if (states[i] === 'BEFORE') return;
+            ctx.globalAlpha = states[i] === 'CHRISTMAS' ? 0.12 : 0.3;
+            ctx.fillStyle = states[i] === 'CHRISTMAS' ? theme.primary : '#000000';
+            ctx.fillRect(x, y, width, height);
+        }));
+        ctx.globalAlpha = 1;
+        texture.needsUpdate = true;
+    }, [dates, bands, texture, theme.primary]);
+
+    return (
+        <group>
+            <mesh>
+                <sphereGeometry args={[2.503, 96, 64]} />
+                <meshBasicMaterial map={texture} transparent depthWrite={false} />
+            </mesh>
+            <lineSegments geometry={edges}>
+                <lineBasicMaterial color={theme.primary} transparent opacity={0.15} depthWrite={false} />
+            </lineSegments>
+        </group>
+    );
+};
+
+const DateLine = () => {
+    const theme = useTheme();
+    const geometry = useMemo(() => buildLineGeometry(getDateLine(), 2.514), []);
+    return (
+        <lineSegments geometry={geometry} onUpdate={(self) => self.computeLineDistances()}>
+            <lineDashedMaterial color={theme.secondary} dashSize={0.04} gapSize={0.03} transparent opacity={0.8} depthWrite={false} />
+        </lineSegments>
+    );
+};
+
+// Built once on the prime meridian and swung to the current midnight longitude every frame
+const MidnightMeridian = () => {
+    const theme = useTheme();
+    const groupRef = useRef<THREE.Group>(null);
+    const geometry = useMemo(() => buildLineGeometry([Array.from({ length: 91 }, (_, i): [number, number] => [i * 2 - 90, 0])], 2.516), []);
+
+    useFrame(() => {
+        if (groupRef.current) groupRef.current.rotation.y = getMidnightLongitude(missionClock.now()) * (Math.PI / 180);
+    });
+
+    return (
+        <group ref={groupRef}>
+            <lineSegments geometry={geometry}>
+                <lineBasicMaterial color={theme.accent} transparent opacity={0.9} depthWrite={false} />
+            </lineSegments>
+            <lineSegments geometry={geometry} scale={1.002}>
+                <lineBasicMaterial color={theme.accent} transparent opacity={0.35} blending={THREE.AdditiveBlending} depthWrite={false} />
+            </lineSegments>
+        </group>
+    );
+};
+
+const GeoOverlays = ({ overlays }: { overlays: GlobeOverlays }) => (
+    <group>
+        {overlays.timezones && <TimezoneBands />}
+        {overlays.graticule && <Graticule />}
+        {overlays.borders && <CountryBorders />}
+        {overlays.dateLine && <DateLine />}
+        {overlays.midnight && <MidnightMeridian />}
+    </group>
+);
+
+// Weather systems the cloud shader can draw at once
+const MAX_WEATHER_SYSTEMS = 24;
+
+// Drifting cloud decks over each weather system, swirled around storm centres, with
+// flickering rain / snow speckle where it is precipitating
+const WeatherShader = {
+  vertexShader: `
+    varying vec3 vSurface;
+
+    void main() {
+      vSurface = normalize(position);
+      gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+    }
+  `,
+  fragmentShader: `
+    #define MAX_SYSTEMS ${MAX_WEATHER_SYSTEMS}
+
+    uniform vec4 systems[MAX_SYSTEMS];      // xyz centre (unit vector), w radius (radians)
+    uniform vec4 systemParams[MAX_SYSTEMS]; // x intensity, y precipitation (0 none, 1 rain, 2 snow), z storm, w fog
+    uniform int systemCount;
+    uniform vec3 sunDirection; // In the sphere's own frame
+    uniform vec3 cloudColor;
+    uniform vec3 rainColor;
+    uniform vec3 snowColor;
+    uniform float daylight; // 1 = shade by the sun, 0 = flat sensor colours
+    uniform float opacity;
+    uniform float time;
+
+    varying vec3 vSurface;
+
+    float hash(vec3 p) {
+      p = fract(p * 0.3183099 + 0.1);
+      p *= 17.0;
+      return fract(p.x * p.y * p.z * (p.x + p.y + p.z));
+    }
+
+    float noise(vec3 x) {
+      vec3 i = floor(x);
+      vec3 f = fract(x);
+      f = f * f * (3.0 - 2.0 * f);
+      return mix(mix(mix(hash(i), hash(i + vec3(1.0, 0.0, 0.0)), f.x),
+                     mix(hash(i + vec3(0.0, 1.0, 0.0)), hash(i + vec3(1.0, 1.0, 0.0)), f.x), f.y),
+                 mix(mix(hash(i + vec3(0.0, 0.0, 1.0)), hash(i + vec3(1.0, 0.0, 1.0)), f.x),
+                     mix(hash(i + vec3(0.0, 1.0, 1.0)), hash(i + vec3(1.0, 1.0, 1.0)), f.x), f.y), f.z);
+    }
+
+    float fbm(vec3 p) {
+      float value = 0.0;
+      float amplitude = 0.5;
+      for (int i = 0; i < 4; i++) {
+        value += amplitude * noise(p);
+        p *= 2.03;
+        amplitude *= 0.5;
+      }
+      return value;
+    }
+
+    vec3 rotateAbout(vec3 p, vec3 axis, float angle) {
+      return p * cos(angle) + cross(axis, p) * sin(angle) + axis * dot(axis, p) * (1.0 - cos(angle));
+    }
+
+    void main() {
+      vec3 p = normalize(vSurface);
+      float cloud = 0.0;
+      float rain = 0.0;
+      float snow = 0.0;
+
+      for (int i = 0; i < MAX_SYSTEMS; i++) {
+        if (i >= systemCount) break;
+        vec3 centre = systems[i].xyz;
+        float d = acos(clamp(dot(p, centre), -1.0, 1.0)) / systems[i].w;
+        if (d > 2.5) continue;
+        vec4 params = systemParams[i];
+        float weight = params.x * exp(-d * d);
+
+        if (params.w > 0.5) {
+          // Fog: a flat low haze
+          cloud = max(cloud, weight * 0.55);
+          continue;
+        }
+
+        // Storms wind their cloud bands into a spiral, turning slowly
+        vec3 q = params.z > 0.5 ? rotateAbout(p, centre, (1.0 - smoothstep(0.0, 1.5, d)) * 2.5 - time * 0.05) : p;
+        float deck = smoothstep(0.35, 0.75, fbm(q * 9.0 + vec3(time * 0.01, 0.0, time * 0.008)) * (0.55 + weight));
+        cloud = max(cloud, deck * min(1.0, weight * 2.0));
+
+        if (params.y > 1.5) snow += weight;
+        else if (params.y > 0.5) rain += weight;
+      }
+
+      // Precipitation speckle, re-rolled a few times a second
+      float speck = hash(floor(p * 320.0) + floor(time * 5.0));
+      float snowing = step(1.0 - 0.25 * min(snow, 1.0), speck);
+      float raining = step(1.0 - 0.2 * min(rain, 1.0), fract(speck * 7.31));
+
+      float light = mix(1.0, 0.12 + 0.88 * smoothstep(-0.15, 0.25, dot(p, sunDirection)), daylight);
+      vec3 color = cloudColor * light;
+      float alpha = cloud * 0.8;
+      color = mix(color, rainColor * max(light, 0.5), raining);
+      color = mix(color, snowColor * max(light, 0.5), snowing);
+      alpha = max(alpha, max(raining * 0.6, snowing * 0.85));
+
+      gl_FragColor = vec4(color, alpha * opacity);
+    }
+  `
+};
+
+const PRECIPITATION_CODES: Record<WeatherSystem['precipitation'], number> = { NONE: 0, RAIN: 1, SNOW: 2 };
+
+// Clouds and precipitation from the weather provider, just above the surface
+const WeatherLayer = ({ systems }: { systems: WeatherSystem[] }) => {
+    const theme = useTheme();
+    const natural = theme.mode === ViewMode.OPTICAL;
+
+    const uniforms = useMemo(() => ({
+        systems: { value: Array.from({ length: MAX_WEATHER_SYSTEMS }, () => new THREE.Vector4()) },
+        systemParams: { value: Array.from({ length: MAX_WEATHER_SYSTEMS }, () => new THREE.Vector4()) },
+        systemCount: { value: 0 },
+        sunDirection: { value: new THREE.Vector3(1, 0, 0) },
+        cloudColor: { value: new THREE.Color('#ffffff') },
+        rainColor: { value: new THREE.Color('#ffffff') },
+        snowColor: { value: new THREE.Color('#ffffff') },
+        daylight: { value: 1.0 },
+        opacity: { value: 1.0 },
+        time: { value: 0.0 }
+    }), []);
+
+    useEffect(() => {
+        const count = Math.min(systems.length, MAX_WEATHER_SYSTEMS);
+        for (let i = 0; i < count; i++) {
+            const system = systems[i];
+            const centre = latLonToVector3(system.center[0], system.center[1], 1);
+            uniforms.systems.value[i].set(centre.x, centre.y, centre.z, system.radiusDeg * (Math.PI / 180));
+            uniforms.systemParams.value[i].set(system.intensity, PRECIPITATION_CODES[system.precipitation], system.kind === 'STORM' ? 1 : 0, system.kind === 'FOG' ? 1 : 0);
+        }
+        uniforms.systemCount.value = count;
+    }, [systems, uniforms]);
+
+    // Natural colours lit by the sun in OPTICAL; the sensor modes draw it flat in theme colours
+    useEffect(() => {
+        uniforms.cloudColor.value.set(natural ? '#ffffff' : theme.primaryLight);
+        uniforms.rainColor.value.set(natural ? '#8fb8ff' : theme.secondary);
+        uniforms.snowColor.value.set(natural ? '#ffffff' : theme.secondary);
+        uniforms.daylight.value = natural ? 1.0 : 0.0;
+        uniforms.opacity.value = natural ? 1.0 : 0.6;
+    }, [natural, theme.primaryLight, theme.secondary, uniforms]);
+
+    useFrame(({ clock }) => {
+        const subsolar = getSubsolarPoint(missionClock.now());
+        uniforms.sunDirection.value.copy(latLonToVector3(subsolar.lat, subsolar.lon, 1));
+        uniforms.time.value = clock.getElapsedTime();
+    });
+
+    return (
+        <mesh>
+            <sphereGeometry args={[2.545, 96, 64]} />
+            <shaderMaterial
+                uniforms={uniforms}
+                vertexShader={WeatherShader.vertexShader}
+                fragmentShader={WeatherShader.fragmentShader}
+                transparent
+                depthWrite={false}
+            />
+        </mesh>
+    );
+};
+
+const UTCTimeDisplay = () => {
+    const { now: time } = useMissionClock();
+    const { primary: themeColor, primaryDark: themeDark, primaryLight: themeLight } = useTheme();
+
+    // Same subsolar point the Earth shader lights from
+    const subsolar = getSubsolarPoint(time);
+    const sunLong = subsolar.lon;
+    const declination = subsolar.declination;
 
     return (
         <div className="hidden md:block absolute bottom-6 right-80 p-3 bg-black/60 border backdrop-blur-md font-mono text-xs z-10 pointer-events-none min-w-[200px]" style={{borderColor: themeColor + '30', color: themeLight}}>
@@ -615,6 +1378,10 @@ const UTCTimeDisplay = ({ viewMode }: { viewMode: ViewMode }) => {
                    <span>SOLAR DECL:</span>
                    <span className="text-white">{declination.toFixed(2)}°</span>
                 </div>
+                <div className="flex justify-between">
+                   <span>EQ OF TIME:</span>
+                   <span className="text-white">{subsolar.equationOfTimeMinutes >= 0 ? '+' : ''}{subsolar.equationOfTimeMinutes.toFixed(1)} MIN</span>
+                </div>
             </div>
              {/* Decorative Corner */}
              <div className="absolute top-0 right-0 w-2 h-2 border-t border-r" style={{borderColor: themeColor}}></div>
@@ -623,7 +1390,33 @@ const UTCTimeDisplay = ({ viewMode }: { viewMode: ViewMode }) => {
     )
 }
 
-const GlobeMap = ({ santaPosition, visitedLocations, plannedRoute, viewMode, isActive = true }: { santaPosition: [number, number], visitedLocations: [number, number][], plannedRoute: [number, number][], viewMode: ViewMode, isActive?: boolean }) => {
+// Imagery state over the globe: shown while loading, and kept up when running on the fallback
+const ImageryStatusBadge = ({ status }: { status: EarthImageryStatus | null }) => {
+    const { primary: themeColor, primaryLight: themeLight } = useTheme();
+    if (!status || status.state === 'READY') return null;
+
+    const isLoading = status.state === 'LOADING';
+    const label = status.state === 'LOADING' ? `ACQUIRING IMAGERY // ${status.resolution.toUpperCase()}`
+        : status.state === 'FALLBACK' ? 'IMAGERY OFFLINE // PROCEDURAL GLOBE'
+        : 'IMAGERY OFFLINE // NO GLOBE TEXTURE';
+    const warning = status.state === 'UNAVAILABLE' ? '#ff4444' : '#ffcc00';
+    return (
+        <div
+            className={`absolute bottom-4 md:bottom-24 left-1/2 -translate-x-1/2 px-3 py-1 bg-black/70 border font-mono text-[10px] tracking-widest z-10 pointer-events-none ${isLoading ? 'animate-pulse' : ''}`}
+            style={{borderColor: isLoading ? themeColor + '50' : warning + '80', color: isLoading ? themeLight : warning}}
+            title={isLoading ? undefined : status.error}
+        >
+            {label}
+        </div>
+    );
+};
+
+const GlobeMap = ({ santaPosition, santaHeading = 0, visitedLocations, plannedRoute, stations = [], selectedStation = null, onStationSelect, overlays, weatherSystems = [], isActive = true, rotation = { mode: 'SIDEREAL' }, cameraMode = CameraMode.FREE, cameraTarget = null }: { santaPosition: [number, number], santaHeading?: number, visitedLocations: [number, number][], plannedRoute: [number, number][], stations?: StationSchedule[], selectedStation?: string | null, onStationSelect?: (station: TrackingLocation) => void, overlays?: GlobeOverlays, weatherSystems?: WeatherSystem[], isActive?: boolean, rotation?: GlobeRotation, cameraMode?: CameraMode, cameraTarget?: [number, number] | null }) => {
+  const frameRef = useRef<THREE.Group>(null);
+  // Only stops glow: the North Pole base isn't a visited city
+  const visitedGlows = useMemo(() => isActive ? visitedLocations.filter(coords => !isNorthPole(coords)) : NO_VISITS, [isActive, visitedLocations]);
+  const [imagery, setImagery] = useState<EarthImageryStatus | null>(null);
+
   return (
     <div className="w-full h-full bg-[#000510] relative">
       <Canvas>
@@ -632,17 +1425,26 @@ const GlobeMap = ({ santaPosition, visitedLocations, plannedRoute, viewMode, isA
         <ambientLight intensity={0.1} /> 
         
         <Suspense fallback={null}>
-            <Earth viewMode={viewMode} />
-            {isActive && <PlannedRoute route={plannedRoute} viewMode={viewMode} />}
-            {isActive && <Trajectory locations={visitedLocations} currentPos={santaPosition} viewMode={viewMode} />}
-            {isActive && <VisitedMarkers locations={visitedLocations} viewMode={viewMode} />}
-            {isActive && <SantaMarker position={santaPosition} viewMode={viewMode} />}
+            <EarthFrame rotation={rotation} frameRef={frameRef}>
+                <Earth visited={visitedGlows} onImageryStatus={setImagery} />
+                {overlays && <GeoOverlays overlays={overlays} />}
+                {overlays?.weather && <WeatherLayer systems={weatherSystems} />}
+                {isActive && <PlannedRoute route={plannedRoute} />}
+                {isActive && <Trajectory locations={visitedLocations} currentPos={santaPosition} />}
+                {isActive && <VisitedMarkers locations={visitedLocations} />}
+                <StationMarkers stations={stations} selected={selectedStation} onSelect={onStationSelect} />
+                {isActive && <SantaSleigh position={santaPosition} heading={santaHeading} />}
+            </EarthFrame>
             <Stars radius={100} depth={50} count={3000} factor={4} saturation={0} fade speed={0.2} />
         </Suspense>
 
+        <CameraRig mode={cameraMode} santaPosition={santaPosition} target={cameraTarget} frameRef={frameRef} />
+
+        {/* Dragging is only for FREE; zoom stays available in every mode */}
         <OrbitControls 
             enablePan={false} 
             enableZoom={true} 
+            enableRotate={cameraMode === CameraMode.FREE}
             minDistance={4} 
             maxDistance={12} 
             rotateSpeed={0.5}
@@ -651,7 +1453,8 @@ const GlobeMap = ({ santaPosition, visitedLocations, plannedRoute, viewMode, isA
       </Canvas>
       
       {/* HUD Layers */}
-      <UTCTimeDisplay viewMode={viewMode} />
+      <UTCTimeDisplay />
+      <ImageryStatusBadge status={imagery} />
     </div>
   );
 };
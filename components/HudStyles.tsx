@@ -0,0 +1,30 @@
+import React from 'react';
+import { useTheme } from './ThemeContext';
+import { IntelLogEntry } from '../types';
+
+// Styling shared by the HUD panels, on top of the active theme
+
+// Log colours by priority (MED/LOW follow the active view mode)
+export const PRIORITY_COLORS: Partial<Record<IntelLogEntry['priority'], string>> = {
+  CRITICAL: '#ff3355',
+  HIGH: '#ffcc00'
+};
+
+// Style for a toggle button: lit in `color` (the theme's primary by default) while active
+export const useToggleStyle = () => {
+  const { primary, primaryDark } = useTheme();
+  return (active: boolean, color: string = primary): React.CSSProperties => ({
+    backgroundColor: active ? color + '20' : '#00000080',
+    borderColor: active ? color : primaryDark + '50',
+    color: active ? '#ffffff' : primaryDark,
+    boxShadow: active ? `0 0 10px ${color}50` : 'none'
+  });
+};
+
+// Label on the left, value on the right
+export const Row = ({ label, value, labelColor, valueColor }: { label: string, value: React.ReactNode, labelColor: string, valueColor: string }) => (
+  <div className="flex justify-between mb-1">
+    <span style={{color: labelColor}}>{label}</span>
+    <span className="font-bold tabular-nums" style={{color: valueColor}}>{value}</span>
+  </div>
+);
@@ -0,0 +1,131 @@
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import HudBox from './DataPanel';
+import { useTheme } from './ThemeContext';
+import { PRIORITY_COLORS, useToggleStyle } from './HudStyles';
+import { IntelLogEntry } from '../types';
+import { sortLogsByPriority } from '../services/intelEngine';
+import { IntelLogFilter, EMPTY_LOG_FILTER, LogExportFormat, filterLogs, getLogRegions, downloadLogs } from '../services/intelLogStore';
+
+interface IntelLogPanelProps {
+  logs: IntelLogEntry[];
+  now: Date;
+}
+
+const PRIORITIES: IntelLogEntry['priority'][] = ['CRITICAL', 'HIGH', 'MED', 'LOW'];
+const EXPORT_FORMATS: LogExportFormat[] = ['json', 'csv', 'txt'];
+
+// Fixed row height so only the visible slice of a long history is rendered
+const ROW_HEIGHT = 34;
+const OVERSCAN = 6;
+
+const IntelLogPanel: React.FC<IntelLogPanelProps> = ({ logs, now }) => {
+  const { primary: themeColor, primaryDark: themeDark, primaryLight: themeLight, secondary: themeSecondary, glowStrong: themeGlow } = useTheme();
+  const [filter, setFilter] = useState<IntelLogFilter>(EMPTY_LOG_FILTER);
+  const [sortByPriority, setSortByPriority] = useState(true); // Priority order by default; PRI switches to plain time order
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(0);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const list = listRef.current;
+    if (!list) return;
+    const observer = new ResizeObserver(() => setViewportHeight(list.clientHeight));
+    observer.observe(list);
+    setViewportHeight(list.clientHeight);
+    return () => observer.disconnect();
+  }, []);
+
+  const regions = useMemo(() => getLogRegions(logs), [logs]);
+  const filtered = useMemo(() => filterLogs(logs, filter), [logs, filter]);
+  const visible = useMemo(() => sortByPriority ? sortLogsByPriority(filtered) : filtered, [filtered, sortByPriority]);
+
+  const first = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+  const last = Math.min(visible.length, Math.ceil((scrollTop + viewportHeight) / ROW_HEIGHT) + OVERSCAN);
+
+  const togglePriority = (priority: IntelLogEntry['priority']) => {
+    setFilter(prev => ({
+      ...prev,
+      priorities: prev.priorities.includes(priority)
+        ? prev.priorities.filter(p => p !== priority)
+        : [...prev.priorities, priority]
+    }));
+  };
+
+  const chipStyle = useToggleStyle();
+
+  return (
+    <HudBox title={`DECLASSIFIED THERMAG FEED // ${visible.length}/${logs.length}`} className="relative overflow-hidden" style={{borderLeft: `4px solid ${themeColor}`}}>
+       {/* Animated side indicator */}
+       <div className="absolute left-0 top-0 bottom-0 w-1 bg-gradient-to-b from-transparent to-transparent data-stream opacity-30" style={{backgroundImage: `linear-gradient(to bottom, transparent, ${themeLight}, transparent)`}}></div>
+
+       {/* Filters */}
+       <div className="flex flex-col gap-1 mb-2 text-[8px]">
+          <div className="flex gap-1">
+             {PRIORITIES.map(priority => (
+               <button key={priority} onClick={() => togglePriority(priority)} className="flex-1 py-0.5 border transition-all" style={chipStyle(filter.priorities.includes(priority), PRIORITY_COLORS[priority])}>
+                 {priority}
+               </button>
+             ))}
+             <button onClick={() => setSortByPriority(prev => !prev)} className="px-1 py-0.5 border transition-all" style={chipStyle(sortByPriority)} title="Sort by priority (off: newest first)">
+               PRI
+             </button>
+          </div>
+          <div className="flex gap-1">
+             <select
+               value={filter.region ?? ''}
+               onChange={e => setFilter(prev => ({ ...prev, region: e.target.value || null }))}
+               className="w-1/3 bg-black/60 border px-1 py-0.5 outline-none"
+               style={{borderColor: themeDark + '50', color: themeLight}}
+             >
+               <option value="">ALL REGIONS</option>
+               {regions.map(region => <option key={region} value={region}>{region}</option>)}
+             </select>
+             <input
+               value={filter.text}
+               onChange={e => setFilter(prev => ({ ...prev, text: e.target.value }))}
+               placeholder="SEARCH..."
+               className="flex-1 min-w-0 bg-black/60 border px-1 py-0.5 outline-none uppercase"
+               style={{borderColor: themeDark + '50', color: themeLight}}
+             />
+          </div>
+       </div>
+
+       {/* Virtualised history */}
+       <div ref={listRef} className="h-40 md:h-64 overflow-y-auto relative" onScroll={e => setScrollTop(e.currentTarget.scrollTop)}>
+          <div style={{height: visible.length * ROW_HEIGHT, position: 'relative'}}>
+            {visible.slice(first, last).map((log, i) => {
+              const color = PRIORITY_COLORS[log.priority] || (log.priority === 'LOW' ? themeDark : themeSecondary);
+              return (
+                <div key={log.id} className="absolute left-0 right-0 text-[10px] pt-1 group overflow-hidden" style={{top: (first + i) * ROW_HEIGHT, height: ROW_HEIGHT, borderBottom: `1px solid ${themeDark}30`}} title={log.message}>
+                    <div className="flex items-center gap-2">
+                      <span className="w-1.5 h-1.5 rounded-full flex-shrink-0 group-hover:shadow-[0_0_12px] transition-shadow" style={{backgroundColor: PRIORITY_COLORS[log.priority] || themeColor, boxShadow: `0 0 6px ${PRIORITY_COLORS[log.priority] || themeGlow}`}}></span>
+                      <span className="font-bold" style={{color: themeDark}}>[{log.timestamp}]</span>
+                      <span className="px-1 border text-[8px] font-bold leading-none py-px" style={{color, borderColor: color + '60'}}>{log.priority}</span>
+                      {log.region && <span className="text-[8px] truncate" style={{color: themeDark}}>{log.region}</span>}
+                    </div>
+                    <div className={`pl-3.5 truncate ${log.priority === 'CRITICAL' ? 'font-bold' : ''}`} style={{color}}>{log.message}</div>
+                </div>
+              );
+            })}
+          </div>
+          {visible.length === 0 && (
+            <div className="absolute inset-0 flex items-center justify-center text-[10px]" style={{color: themeDark}}>
+              {logs.length === 0 ? 'AWAITING INTEL...' : 'NO ENTRIES MATCH FILTER'}
+            </div>
+          )}
+       </div>
+
+       {/* Export (the filtered entries, always in time order) */}
+       <div className="flex items-center gap-1 mt-2 text-[8px]">
+          <span style={{color: themeDark}}>EXPORT:</span>
+          {EXPORT_FORMATS.map(format => (
+            <button key={format} onClick={() => downloadLogs(filtered, format, now)} disabled={filtered.length === 0} className="flex-1 py-0.5 border transition-all uppercase disabled:opacity-40" style={chipStyle(false)}>
+              {format}
+            </button>
+          ))}
+       </div>
+    </HudBox>
+  );
+};
+
+export default IntelLogPanel;
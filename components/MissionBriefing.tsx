@@ -0,0 +1,95 @@
+import React from 'react';
+import HudBox from './DataPanel';
+import { useTheme } from './ThemeContext';
+import { Row } from './HudStyles';
+import { MissionPhase } from '../types';
+import { DeliveryStatus } from '../services/deliveryModel';
+import { missionClock } from '../services/missionClock';
+import { distanceKm } from '../services/geo';
+
+interface MissionBriefingProps {
+  phase: MissionPhase;
+  now: Date;
+  launchAt: number;
+  returnAt: number;
+  delivery: DeliveryStatus | null;
+  route: [number, number][];
+  visited: [number, number][];
+}
+
+// D days HH:MM:SS
+const formatLongCountdown = (ms: number): string => {
+  const total = Math.max(0, Math.floor(ms / 1000));
+  const days = Math.floor(total / 86400);
+  const h = Math.floor((total % 86400) / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const sec = total % 60;
+  const clock = `${h.toString().padStart(2, '0')}:${m.toString().padStart(2, '0')}:${sec.toString().padStart(2, '0')}`;
+  return days > 0 ? `${days}D ${clock}` : clock;
+};
+
+// North Pole readiness ramps up over the 30 days before launch
+const READINESS_RAMP_HOURS = 30 * 24;
+
+const LaunchCountdown = ({ now, launchAt, delivery }: MissionBriefingProps) => {
+  const { primary: themeColor, primaryDark: themeDark, primaryLight: themeLight } = useTheme();
+  const remaining = launchAt - now.getTime();
+  const readiness = Math.min(1, Math.max(0, 1 - remaining / (READINESS_RAMP_HOURS * 60 * 60 * 1000)));
+  const finalDay = remaining < 24 * 60 * 60 * 1000;
+
+  return (
+    <HudBox title="PRE-LAUNCH // NORTH POLE" className="w-[420px] bg-black/80 text-xs">
+      <div className="text-[10px] uppercase tracking-widest mb-1" style={{color: themeDark}}>Launch in</div>
+      <div className="text-4xl font-bold tabular-nums mb-3 text-white" style={{textShadow: `0 0 12px ${themeColor}`}}>
+        T-{formatLongCountdown(remaining)}
+      </div>
+      <Row label="LAUNCH WINDOW:" value={new Date(launchAt).toISOString().slice(5, 16).replace('T', ' ') + 'Z'} labelColor={themeDark} valueColor={themeLight} />
+      <Row label="PAYLOAD LOADED:" value={`${(readiness * 100).toFixed(1)}%`} labelColor={themeDark} valueColor={themeLight} />
+      <Row label="MANIFEST:" value={`${(delivery ? delivery.target : 0).toLocaleString()} UNITS`} labelColor={themeDark} valueColor={themeLight} />
+      <Row label="REINDEER:" value={finalDay ? '9/9 HARNESSED' : '9/9 FIT // GRAZING'} labelColor={themeDark} valueColor={themeLight} />
+      <Row label="SLEIGH DIAGNOSTICS:" value={readiness > 0.95 ? 'GO' : 'IN PROGRESS'} labelColor={themeDark} valueColor={readiness > 0.95 ? '#4ade80' : themeLight} />
+      <div className="w-full h-2 mt-2 relative overflow-hidden rounded-full border" style={{backgroundColor: themeDark + '30', borderColor: themeDark + '50'}}>
+        <div className="absolute top-0 left-0 h-full" style={{width: `${readiness * 100}%`, backgroundColor: themeColor}}></div>
+      </div>
+    </HudBox>
+  );
+};
+
+const MissionDebrief = ({ launchAt, returnAt, delivery, route, visited }: MissionBriefingProps) => {
+  const { primary: themeColor, primaryDark: themeDark, primaryLight: themeLight } = useTheme();
+  let flownKm = 0;
+  for (let i = 1; i < route.length; i++) {
+    flownKm += distanceKm(route[i - 1], route[i]);
+  }
+  const durationHours = (returnAt - launchAt) / (60 * 60 * 1000);
+  // Visited includes the North Pole at both ends
+  const stops = Math.max(0, visited.length - 2);
+
+  return (
+    <HudBox title="MISSION DEBRIEF" className="w-[420px] bg-black/80 text-xs">
+      <div className="text-2xl font-bold mb-3 text-white" style={{textShadow: `0 0 12px ${themeColor}`}}>MISSION COMPLETE</div>
+      <Row label="GIFTS DELIVERED:" value={(delivery ? delivery.delivered : 0).toLocaleString()} labelColor={themeDark} valueColor={themeLight} />
+      <Row label="STOPS:" value={stops} labelColor={themeDark} valueColor={themeLight} />
+      <Row label="DISTANCE FLOWN:" value={`${Math.round(flownKm).toLocaleString()} KM`} labelColor={themeDark} valueColor={themeLight} />
+      <Row label="MISSION DURATION:" value={`${durationHours.toFixed(1)} H`} labelColor={themeDark} valueColor={themeLight} />
+      <Row label="RTB:" value={new Date(returnAt).toISOString().slice(5, 16).replace('T', ' ') + 'Z'} labelColor={themeDark} valueColor={themeLight} />
+      <button
+        className="w-full mt-3 py-2 text-[10px] border pointer-events-auto transition-all"
+        style={{borderColor: themeColor, color: '#ffffff', backgroundColor: themeColor + '20'}}
+        onClick={() => missionClock.simulate(new Date(launchAt), 600)}
+      >
+        REPLAY MISSION (600x)
+      </button>
+    </HudBox>
+  );
+};
+
+// Dashboard shown while Santa is on the ground: a launch countdown before the mission
+// and a replayable debrief after it. Renders nothing while he is airborne.
+const MissionBriefing: React.FC<MissionBriefingProps> = (props) => {
+  if (props.phase === MissionPhase.PRE_LAUNCH) return <LaunchCountdown {...props} />;
+  if (props.phase === MissionPhase.COMPLETE) return <MissionDebrief {...props} />;
+  return null;
+};
+
+export default MissionBriefing;
@@ -1,52 +1,195 @@
-import React, { useRef, useMemo, useState } from 'react';
+import React, { useRef, useMemo, useEffect } from 'react';
 import { Canvas, useFrame } from '@react-three/fiber';
-import { Stars, PerspectiveCamera, OrbitControls } from '@react-three/drei';
+import { Stars, PerspectiveCamera } from '@react-three/drei';
 import * as THREE from 'three';
-import { ViewMode } from '../types';
+import { useTheme } from './ThemeContext';
+import SleighModel from './SleighModel';
+import { GroundType } from '../types';
+import { WeatherConditions, formatSky } from '../services/weatherProvider';
+import { CRUISE_ALTITUDE_FT } from '../services/missionTelemetry';
 
-// --- Fallback 3D Components ---
+// Sled-cam: a chase view of the sleigh driven by the live telemetry. The ground scrolls
+// at his speed, the camera rides his altitude, precipitation follows the weather at his
+// station, and the ground is ocean, open land or city depending on what he's over.
 
-const Snow = ({ count = 100 }) => {
+const UNITS_PER_MACH = 3; // Ground scroll speed (units per second) per Mach
+const GROUND_Y = -2;
+const MAX_PARTICLES = 600;
+
+// --- Ground ---
+
+// Moves a value along +Z at `rate` units per second, wrapping every `period`
+const useScroll = (rate: number, period: number) => {
+  const offset = useRef(0);
+  useFrame((_, delta) => {
+    offset.current = (offset.current + rate * delta) % period;
+  });
+  return offset;
+};
+
+const MovingTerrain = ({ rate }: { rate: number }) => {
+    const { terrain: color } = useTheme();
+    const gridRef = useRef<THREE.Group>(null);
+    const offset = useScroll(rate, 1);
+    useFrame(() => {
+        if (gridRef.current) gridRef.current.position.z = offset.current;
+    });
+
+    return (
+        <group>
+            <mesh position={[0, GROUND_Y - 0.01, 0]} rotation={[-Math.PI / 2, 0, 0]}>
+                <planeGeometry args={[40, 40]} />
+                <meshStandardMaterial color="#1c2418" roughness={1} />
+            </mesh>
+            <group ref={gridRef} position={[0, GROUND_Y, 0]}>
+                <gridHelper args={[40, 40, color, color]} />
+            </group>
+        </group>
+    )
+}
+
+const Ocean = ({ rate }: { rate: number }) => {
+    const swellRef = useRef<THREE.Group>(null);
+    const offset = useScroll(rate, 2);
+    useFrame(({ clock }) => {
+        if (swellRef.current) {
+            swellRef.current.position.z = offset.current;
+            swellRef.current.position.y = GROUND_Y + Math.sin(clock.getElapsedTime() * 1.2) * 0.03;
+        }
+    });
+
+    return (
+        <group>
+            <mesh position={[0, GROUND_Y - 0.02, 0]} rotation={[-Math.PI / 2, 0, 0]}>
+                <planeGeometry args={[40, 40]} />
+                <meshStandardMaterial color="#06324f" roughness={0.2} metalness={0.6} />
+            </mesh>
+            {/* Swell lines */}
+            <group ref={swellRef} position={[0, GROUND_Y, 0]}>
+                <gridHelper args={[40, 20, '#1e6a8a', '#0f4a66']} />
+            </group>
+        </group>
+    );
+};
+
+const BUILDINGS = 140;
+const CITY_DEPTH = 40; // Buildings recycle over this stretch of street
+
+const City = ({ rate }: { rate: number }) => {
+    const buildingsRef = useRef<THREE.InstancedMesh>(null);
+    const lightsRef = useRef<THREE.InstancedMesh>(null);
+    const dummy = useMemo(() => new THREE.Object3D(), []);
+
+    // Blocks either side of the flight line, leaving a clear corridor under the sleigh
+    const blocks = useMemo(() => Array.from({ length: BUILDINGS }, () => {
+        const side = Math.random() < 0.5 ? -1 : 1;
+        return {
+            x: side * (1.2 + Math.random() * 12),
+            z: (Math.random() - 0.5) * CITY_DEPTH,
+            width: 0.4 + Math.random() * 0.6,
+            height: 0.3 + Math.random() * 1.4
+        };
+    }), []);
+
+    useFrame((_, delta) => {
+        if (!buildingsRef.current || !lightsRef.current) return;
+        blocks.forEach((block, i) => {
+            block.z += rate * delta;
+            if (block.z > CITY_DEPTH / 2) block.z -= CITY_DEPTH;
+
+            dummy.position.set(block.x, GROUND_Y + block.height / 2, block.z);
+            dummy.scale.set(block.width, block.height, block.width);
+            dummy.updateMatrix();
+            buildingsRef.current!.setMatrixAt(i, dummy.matrix);
+
+            // Rooftop light
+            dummy.position.set(block.x, GROUND_Y + block.height + 0.03, block.z);
+            dummy.scale.setScalar(1);
+            dummy.updateMatrix();
+            lightsRef.current!.setMatrixAt(i, dummy.matrix);
+        });
+        buildingsRef.current.instanceMatrix.needsUpdate = true;
+        lightsRef.current.instanceMatrix.needsUpdate = true;
+    });
+
+    return (
+        <group>
+            <mesh position={[0, GROUND_Y - 0.01, 0]} rotation={[-Math.PI / 2, 0, 0]}>
+                <planeGeometry args={[40, 40]} />
+                <meshStandardMaterial color="#15151c" roughness={1} />
+            </mesh>
+            <instancedMesh ref={buildingsRef} args={[undefined, undefined, BUILDINGS]}>
+                <boxGeometry args={[1, 1, 1]} />
+                <meshStandardMaterial color="#2a3040" emissive="#3a2a08" roughness={0.8} />
+            </instancedMesh>
+            <instancedMesh ref={lightsRef} args={[undefined, undefined, BUILDINGS]}>
+                <boxGeometry args={[0.06, 0.06, 0.06]} />
+                <meshBasicMaterial color="#ffcc66" toneMapped={false} />
+            </instancedMesh>
+        </group>
+    );
+};
+
+// --- Weather ---
+
+// Snowflakes, or rain streaks, streaming past; how many follows the weather
+const Precipitation = ({ weather, rate }: { weather: WeatherConditions | null, rate: number }) => {
   const mesh = useRef<THREE.InstancedMesh>(null);
   const dummy = useMemo(() => new THREE.Object3D(), []);
-  
-  const particles = useMemo(() => {
-    const temp = [];
-    for (let i = 0; i < count; i++) {
-      const t = {
-        x: (Math.random() - 0.5) * 20,
-        y: (Math.random() - 0.5) * 20,
-        z: (Math.random() - 0.5) * 20,
-        speed: 0.05 + Math.random() * 0.1
-      };
-      temp.push(t);
-    }
-    return temp;
+  const rain = weather?.precipitation === 'RAIN';
+
+  const count = !weather ? 0
+    : weather.precipitation === 'SNOW' ? Math.min(MAX_PARTICLES, 80 + Math.round(weather.snowfallCmHr * 120))
+    : rain ? 300
+    : 20; // A few ice crystals in clear air
+
+  const particles = useMemo(() => Array.from({ length: MAX_PARTICLES }, () => ({
+    x: (Math.random() - 0.5) * 20,
+    y: (Math.random() - 0.5) * 20,
+    z: (Math.random() - 0.5) * 20,
+    speed: 0.5 + Math.random()
+  })), []);
+
+  useEffect(() => {
+    if (mesh.current) mesh.current.count = count;
   }, [count]);
 
-  useFrame(() => {
+  useFrame((_, delta) => {
     if (!mesh.current) return;
-    
-    particles.forEach((particle, i) => {
-      particle.z += particle.speed * 2; 
+    const fall = rain ? 8 : 0.6;
+    for (let i = 0; i < count; i++) {
+      const particle = particles[i];
+      particle.z += (2 + rate) * particle.speed * delta;
+      particle.y -= fall * particle.speed * delta;
       if (particle.z > 10) particle.z = -10;
-      
+      if (particle.y < -10) particle.y = 10;
+
       dummy.position.set(particle.x, particle.y, particle.z);
+      dummy.scale.set(1, rain ? 5 : 1, 1);
       dummy.updateMatrix();
-      mesh.current!.setMatrixAt(i, dummy.matrix);
-    });
+      mesh.current.setMatrixAt(i, dummy.matrix);
+    }
     mesh.current.instanceMatrix.needsUpdate = true;
   });
 
   return (
-    <instancedMesh ref={mesh} args={[undefined, undefined, count]}>
+    <instancedMesh ref={mesh} args={[undefined, undefined, MAX_PARTICLES]}>
       <sphereGeometry args={[0.03, 8, 8]} />
-      <meshBasicMaterial color="#ffffff" opacity={0.8} transparent />
+      <meshBasicMaterial color={rain ? '#9cc4ff' : '#ffffff'} opacity={0.8} transparent />
     </instancedMesh>
   );
 };
 
-const SleighModel = () => {
+// Fog closes in with the visibility at the station
+const WeatherFog = ({ weather }: { weather: WeatherConditions | null }) => {
+  const far = 8 + (weather ? weather.visibilityKm : 10) * 1.2;
+  return <fog attach="fog" args={['#020508', 4, far]} />;
+};
+
+// --- Sleigh and camera ---
+
+// Gentle bob and roll on the shared sleigh model
+const FlyingSleigh = () => {
     const group = useRef<THREE.Group>(null);
     useFrame(({ clock }) => {
         if(group.current) {
@@ -57,114 +200,70 @@ const SleighModel = () => {
 
     return (
         <group ref={group} rotation={[0, Math.PI, 0]}>
-            <mesh position={[0, 0, 0]}>
-                <boxGeometry args={[1, 0.6, 1.8]} />
-                <meshStandardMaterial color="#880000" roughness={0.3} />
-            </mesh>
-            <mesh position={[0.4, -0.4, 0]}>
-                <boxGeometry args={[0.1, 0.1, 2.2]} />
-                <meshStandardMaterial color="#cccccc" metalness={0.8} roughness={0.2} />
-            </mesh>
-            <mesh position={[-0.4, -0.4, 0]}>
-                <boxGeometry args={[0.1, 0.1, 2.2]} />
-                <meshStandardMaterial color="#cccccc" metalness={0.8} roughness={0.2} />
-            </mesh>
-            <mesh position={[0, 0.4, -0.4]}>
-                <sphereGeometry args={[0.5, 16, 16]} />
-                <meshStandardMaterial color="#553311" />
-            </mesh>
-            <mesh position={[0, 0, 0.9]}>
-                 <cylinderGeometry args={[0.2, 0.1, 0.1, 16]} rotation={[Math.PI/2, 0, 0]} />
-                 <meshBasicMaterial color="#00ffff" />
-            </mesh>
-             <pointLight position={[0, 0, 1.2]} color="#00ffff" intensity={2} distance={3} />
+            <SleighModel />
+            <pointLight position={[0, 0, 1.2]} color="#00ffff" intensity={2} distance={3} />
         </group>
     )
 }
 
-const MovingTerrain = ({ viewMode }: { viewMode: ViewMode }) => {
-    const gridRef = useRef<THREE.Group>(null);
-    useFrame(({ clock }) => {
-        if (gridRef.current) {
-            gridRef.current.position.z = (clock.getElapsedTime() * 5) % 2;
-        }
-    });
-    
-    const color = viewMode === ViewMode.NIGHT_VISION ? "#005500" : (viewMode === ViewMode.THERMAL ? "#550000" : "#003344");
-
-    return (
-        <group ref={gridRef} position={[0, -2, 0]}>
-             <gridHelper args={[40, 40, color, color]} />
-        </group>
-    )
-}
+// Chase camera, higher above the ground the higher he flies
+const ChaseCamera = ({ altitude }: { altitude: number }) => {
+  useFrame(({ camera }, delta) => {
+    const height = 0.5 + Math.min(1.2, Math.max(0, altitude / CRUISE_ALTITUDE_FT)) * 2.5;
+    camera.position.y += (height - camera.position.y) * (1 - Math.exp(-delta * 2));
+    camera.lookAt(0, 0, 0);
+  });
+  return null;
+};
 
 // --- Main Scene Component ---
 
-const Scene3D = ({ viewMode }: { viewMode: ViewMode }) => {
-  const [useVideo, setUseVideo] = useState(true);
-
-  // CSS filters to simulate view modes on the video element
-  const getVideoFilter = () => {
-      switch (viewMode) {
-          case ViewMode.NIGHT_VISION:
-              return 'hue-rotate(90deg) sepia(100%) saturate(300%) hue-rotate(50deg) brightness(0.8)';
-          case ViewMode.THERMAL:
-              return 'contrast(150%) brightness(120%) hue-rotate(-50deg) saturate(150%)';
-          default:
-              return 'none';
-      }
-  };
-
-  const handleVideoError = () => {
-      // Quietly fallback if the video file is missing
-      setUseVideo(false);
-  };
+interface Scene3DProps {
+  speed: number;    // Mach
+  altitude: number; // Feet
+  ground: GroundType;
+  weather: WeatherConditions | null;
+}
+
+const Scene3D: React.FC<Scene3DProps> = ({ speed, altitude, ground, weather }) => {
+  const theme = useTheme();
+  const rate = speed * UNITS_PER_MACH;
 
   return (
-    <div className="w-full h-full bg-[#020508] relative overflow-hidden rounded-sm border border-cyan-900/50">
-      
-      {useVideo ? (
-        <video 
-            src="./video/santa1.mp4"
-            autoPlay 
-            loop 
-            muted 
-            playsInline
-            className="w-full h-full object-cover"
-            style={{ filter: getVideoFilter() }}
-            onError={handleVideoError}
-        />
-      ) : (
-        <Canvas>
-            <PerspectiveCamera makeDefault position={[3, 2, 4]} fov={50} />
-            <OrbitControls enableZoom={false} enablePan={false} enableRotate={false} />
-            
-            <ambientLight intensity={0.2} />
-            <pointLight position={[10, 10, 10]} intensity={1} />
-            <directionalLight position={[-5, 5, -5]} intensity={0.5} />
-
-            <group position={[0, 0, 0]} rotation={[0, -0.5, 0]}>
-                <SleighModel />
-            </group>
-            
-            <Snow />
-            <MovingTerrain viewMode={viewMode} />
-            <Stars radius={50} depth={20} count={1000} factor={4} saturation={0} fade speed={2} />
-            
-            <fog attach="fog" args={['#020508', 5, 20]} />
-        </Canvas>
-      )}
-      
+    <div className="w-full h-full bg-[#020508] relative overflow-hidden">
+      <Canvas style={{ filter: theme.videoFilter }}>
+          <PerspectiveCamera makeDefault position={[3, 2, 4]} fov={50} />
+          <ChaseCamera altitude={altitude} />
+
+          <ambientLight intensity={0.2} />
+          <pointLight position={[10, 10, 10]} intensity={1} />
+          <directionalLight position={[-5, 5, -5]} intensity={0.5} />
+
+          <group position={[0, 0, 0]} rotation={[0, -0.5, 0]}>
+              <FlyingSleigh />
+          </group>
+
+          <Precipitation weather={weather} rate={rate} />
+          {ground === 'OCEAN' && <Ocean rate={rate} />}
+          {ground === 'LAND' && <MovingTerrain rate={rate} />}
+          {ground === 'CITY' && <City rate={rate} />}
+          <Stars radius={50} depth={20} count={1000} factor={4} saturation={0} fade speed={2} />
+
+          <WeatherFog weather={weather} />
+      </Canvas>
+
       {/* Overlay UI */}
       <div className="absolute inset-0 pointer-events-none z-10 bg-[linear-gradient(rgba(18,16,16,0)_50%,rgba(0,0,0,0.25)_50%),linear-gradient(90deg,rgba(255,0,0,0.06),rgba(0,255,0,0.02),rgba(0,0,255,0.06))] bg-[length:100%_2px,3px_100%] mix-blend-overlay"></div>
-      
-      <div className="absolute top-2 right-2 text-[8px] text-cyan-500 font-mono bg-black/50 px-1 border border-cyan-800 z-20">
+
+      <div className="absolute top-2 right-2 text-[8px] font-mono bg-black/50 px-1 border z-20" style={{color: theme.primary, borderColor: theme.primaryDark}}>
          LIVE FEED: SLED-CAM 1
       </div>
       <div className="absolute bottom-2 left-2 text-[8px] text-red-500 font-mono animate-pulse z-20">
          REC ●
       </div>
+      <div className="absolute bottom-2 right-2 text-[8px] font-mono bg-black/50 px-1 z-20 tabular-nums" style={{color: theme.secondary}}>
+         {ground} // {Math.round(altitude).toLocaleString()} FT // {weather ? formatSky(weather) : 'WX ---'}
+      </div>
     </div>
   );
 };
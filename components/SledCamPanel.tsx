@@ -0,0 +1,68 @@
+import React from 'react';
+import Scene3D from './Scene3D';
+import { useTheme } from './ThemeContext';
+import { useGroundType } from '../hooks/useGroundType';
+import { SantaState, MissionPhase, SledCamDock } from '../types';
+import { WeatherConditions } from '../services/weatherProvider';
+
+interface SledCamPanelProps {
+  santa: SantaState;
+  weather: WeatherConditions | null;
+  overStation: boolean; // Delivering over a station right now
+  isTracking: boolean;
+  phase: MissionPhase;
+  dock: SledCamDock;
+  onDockChange: (dock: SledCamDock) => void;
+}
+
+// Sled-cam feed as a HUD panel that can be docked in either side column or collapsed to its title bar
+const SledCamPanel: React.FC<SledCamPanelProps> = ({ santa, weather, overStation, isTracking, phase, dock, onDockChange }) => {
+  const theme = useTheme();
+  const ground = useGroundType(santa.coordinates, overStation);
+
+  const dockButton = (label: string, title: string, next: SledCamDock, active: boolean = false) => (
+    <button
+      className="px-1 leading-none border pointer-events-auto"
+      style={{borderColor: theme.primary + '50', color: active ? '#ffffff' : theme.secondary, backgroundColor: active ? theme.primary + '30' : 'transparent'}}
+      onClick={() => onDockChange(next)}
+      title={title}
+    >
+      {label}
+    </button>
+  );
+
+  return (
+    <div className="relative bg-black/80 overflow-hidden" style={{border: `1px solid ${theme.primary}50`}}>
+        <div className="flex items-center justify-between px-2 py-1 text-[8px] border-b uppercase tracking-wider" style={{backgroundColor: theme.primaryDark + '60', color: theme.secondary, borderColor: theme.primary + '50'}}>
+            <span>{isTracking ? 'LIVE FEED: TRK-12-24-A' : 'FEED STANDBY: SLED GROUNDED'}</span>
+            <span className="flex gap-1">
+                {dockButton('◀', 'Dock left', { ...dock, side: 'LEFT' }, dock.side === 'LEFT')}
+                {dockButton('▶', 'Dock right', { ...dock, side: 'RIGHT' }, dock.side === 'RIGHT')}
+                {dockButton(dock.collapsed ? '+' : '–', dock.collapsed ? 'Expand' : 'Collapse', { ...dock, collapsed: !dock.collapsed })}
+            </span>
+        </div>
+
+        {!dock.collapsed && (
+          <>
+            {isTracking ? (
+              <div className="w-full h-32 md:h-48">
+                <Scene3D speed={santa.speed} altitude={santa.altitude} ground={ground} weather={weather} />
+              </div>
+            ) : (
+              <div className="w-full h-48 bg-black flex items-center justify-center relative overflow-hidden">
+                <div className="absolute inset-0 opacity-10 animate-pulse" style={{backgroundImage: `repeating-linear-gradient(0deg, ${theme.primary}, ${theme.primary} 1px, transparent 1px, transparent 2px)`}}></div>
+                <div className="text-2xl font-bold" style={{color: theme.primaryLight}}>{phase === MissionPhase.PRE_LAUNCH ? 'AWAITING LAUNCH' : 'MISSION ARCHIVED'}</div>
+              </div>
+            )}
+            {/* Corner accents */}
+            <div className="absolute top-5 left-0 w-4 h-4 border-t-2 border-l-2" style={{borderColor: theme.primaryLight}}></div>
+            <div className="absolute top-5 right-0 w-4 h-4 border-t-2 border-r-2" style={{borderColor: theme.primaryLight}}></div>
+            <div className="absolute bottom-0 left-0 w-4 h-4 border-b-2 border-l-2" style={{borderColor: theme.primaryLight}}></div>
+            <div className="absolute bottom-0 right-0 w-4 h-4 border-b-2 border-r-2" style={{borderColor: theme.primaryLight}}></div>
+          </>
+        )}
+    </div>
+  );
+};
+
+export default SledCamPanel;
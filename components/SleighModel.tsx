@@ -0,0 +1,121 @@
+import React, { useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+
+// Sleigh and reindeer team, nose along +Z, about 5.5 units from the sleigh's tail to the lead
+// reindeer's nose. Used on the globe (scaled right down) and in the sled-cam.
+// With `heat` set everything is drawn flat in that colour instead, hottest where the
+// bodies are (reindeer, then the sleigh), for the thermal view.
+
+interface PaintProps {
+  color: string;
+  heat?: string | null;
+  warmth: number; // 0..1, how hot the part shows under thermal
+  metal?: boolean;
+}
+
+const Paint = ({ color, heat, warmth, metal = false }: PaintProps) => heat
+  ? <meshBasicMaterial color={new THREE.Color(heat).multiplyScalar(0.2 + 0.8 * warmth)} toneMapped={false} />
+  : <meshStandardMaterial color={color} roughness={metal ? 0.2 : 0.6} metalness={metal ? 0.8 : 0} />;
+
+const Reindeer = ({ heat, lead = false }: { heat?: string | null, lead?: boolean }) => (
+  <group>
+    <mesh>
+      <boxGeometry args={[0.28, 0.32, 0.7]} />
+      <Paint color="#6b4226" heat={heat} warmth={1} />
+    </mesh>
+    {/* Neck and head */}
+    <mesh position={[0, 0.28, 0.38]} rotation={[-0.5, 0, 0]}>
+      <boxGeometry args={[0.14, 0.3, 0.14]} />
+      <Paint color="#6b4226" heat={heat} warmth={0.9} />
+    </mesh>
+    <mesh position={[0, 0.42, 0.52]}>
+      <boxGeometry args={[0.16, 0.16, 0.26]} />
+      <Paint color="#5a361e" heat={heat} warmth={0.9} />
+    </mesh>
+    {/* Antlers */}
+    {[-1, 1].map(side => (
+      <mesh key={side} position={[side * 0.1, 0.58, 0.46]} rotation={[0, 0, side * -0.5]}>
+        <boxGeometry args={[0.03, 0.22, 0.03]} />
+        <Paint color="#d9c9a3" heat={heat} warmth={0.1} />
+      </mesh>
+    ))}
+    {/* Legs, tucked up in flight */}
+    {[[-0.09, 0.22], [0.09, 0.22], [-0.09, -0.22], [0.09, -0.22]].map(([x, z], i) => (
+      <mesh key={i} position={[x, -0.26, z]} rotation={[z > 0 ? -0.6 : 0.6, 0, 0]}>
+        <boxGeometry args={[0.06, 0.3, 0.06]} />
+        <Paint color="#4a2e18" heat={heat} warmth={0.7} />
+      </mesh>
+    ))}
+    {lead && (
+      <mesh position={[0, 0.42, 0.67]}>
+        <sphereGeometry args={[0.05, 12, 12]} />
+        <meshBasicMaterial color={heat || '#ff2222'} toneMapped={false} />
+      </mesh>
+    )}
+  </group>
+);
+
+// Two pairs behind a single lead
+const TEAM: { position: [number, number, number], lead?: boolean }[] = [
+  { position: [-0.25, 0.1, 2.0] },
+  { position: [0.25, 0.1, 2.0] },
+  { position: [-0.25, 0.1, 3.1] },
+  { position: [0.25, 0.1, 3.1] },
+  { position: [0, 0.1, 4.2], lead: true }
+];
+
+const SleighModel = ({ heat = null }: { heat?: string | null }) => {
+  const teamRefs = useRef<(THREE.Group | null)[]>([]);
+
+  // Reindeer bound along, each a little out of step
+  useFrame(({ clock }) => {
+    teamRefs.current.forEach((reindeer, i) => {
+      if (reindeer) reindeer.position.y = TEAM[i].position[1] + Math.sin(clock.getElapsedTime() * 6 + i * 1.3) * 0.06;
+    });
+  });
+
+  return (
+    <group>
+      {/* Sleigh */}
+      <mesh position={[0, 0, 0]}>
+        <boxGeometry args={[1, 0.6, 1.8]} />
+        <Paint color="#880000" heat={heat} warmth={0.6} />
+      </mesh>
+      <mesh position={[0.4, -0.4, 0]}>
+        <boxGeometry args={[0.1, 0.1, 2.2]} />
+        <Paint color="#cccccc" heat={heat} warmth={0} metal />
+      </mesh>
+      <mesh position={[-0.4, -0.4, 0]}>
+        <boxGeometry args={[0.1, 0.1, 2.2]} />
+        <Paint color="#cccccc" heat={heat} warmth={0} metal />
+      </mesh>
+      {/* Sack of gifts */}
+      <mesh position={[0, 0.4, -0.4]}>
+        <sphereGeometry args={[0.5, 16, 16]} />
+        <Paint color="#553311" heat={heat} warmth={0.3} />
+      </mesh>
+      {/* Headlamp */}
+      <mesh position={[0, 0, 0.9]} rotation={[Math.PI / 2, 0, 0]}>
+        <cylinderGeometry args={[0.2, 0.1, 0.1, 16]} />
+        <meshBasicMaterial color={heat || '#00ffff'} />
+      </mesh>
+
+      {/* Harness out to the lead reindeer */}
+      {[-0.25, 0.25].map(x => (
+        <mesh key={x} position={[x * 0.5, 0.1, 2.5]} rotation={[0, -x * 0.05, 0]}>
+          <boxGeometry args={[0.02, 0.02, 3.3]} />
+          <Paint color="#3a2a1a" heat={heat} warmth={0} />
+        </mesh>
+      ))}
+
+      {TEAM.map(({ position, lead }, i) => (
+        <group key={i} position={position} ref={(el) => { teamRefs.current[i] = el; }}>
+          <Reindeer heat={heat} lead={lead} />
+        </group>
+      ))}
+    </group>
+  );
+};
+
+export default SleighModel;
@@ -0,0 +1,71 @@
+import React, { useMemo } from 'react';
+import HudBox from './DataPanel';
+import { useTheme } from './ThemeContext';
+import { PRIORITY_COLORS, Row } from './HudStyles';
+import { IntelLogEntry } from '../types';
+import { StationSchedule } from '../services/trackingService';
+import { DeliveryStatus, getStationPayload } from '../services/deliveryModel';
+import { getStationLogs } from '../services/intelLogStore';
+import { formatLocalTime, formatUtcTime } from '../services/timezone';
+
+interface StationDetailPanelProps {
+  schedule: StationSchedule;
+  delivery: DeliveryStatus;
+  logs: IntelLogEntry[];
+  now: Date;
+  onFlyTo: () => void;
+  onClose: () => void;
+}
+
+// Most recent related entries shown
+const MAX_LOGS = 8;
+
+// Details for a station picked on the globe: schedule, deliveries and what the log said about it
+const StationDetailPanel: React.FC<StationDetailPanelProps> = ({ schedule, delivery, logs, now, onFlyTo, onClose }) => {
+  const { primary: themeColor, primaryDark: themeDark, primaryLight: themeLight, secondary: themeSecondary } = useTheme();
+  const { index, station, status } = schedule;
+
+  const payload = getStationPayload(station);
+  const delivered = delivery.stationTotals[index] ?? 0;
+  const progress = payload > 0 ? delivered / payload : 0;
+  const related = useMemo(() => getStationLogs(logs, station.name).slice(0, MAX_LOGS), [logs, station.name]);
+
+  const buttonStyle: React.CSSProperties = { borderColor: themeDark + '50', color: themeColor, backgroundColor: '#00000080' };
+
+  return (
+    <HudBox title={`STATION // ${station.name}`} className="text-[10px] bg-black/80">
+      <div className="flex justify-between mb-2">
+        <span style={{color: themeDark}}>{station.region} // {station.coordinates[0].toFixed(2)}, {station.coordinates[1].toFixed(2)}</span>
+        <span className="font-bold" style={{color: status === 'OVERHEAD' ? '#ffcc00' : themeSecondary}}>{status}</span>
+      </div>
+
+      <Row label="LOCAL TIME:" value={formatLocalTime(now, station)} labelColor={themeDark} valueColor={themeLight} />
+      <Row label="ARRIVAL (UTC):" value={formatUtcTime(schedule.arriveAt)} labelColor={themeDark} valueColor={themeLight} />
+      <Row label="DEPARTURE (UTC):" value={formatUtcTime(schedule.departAt)} labelColor={themeDark} valueColor={themeLight} />
+      <Row label="DELIVERED:" value={`${delivered.toLocaleString()} / ${payload.toLocaleString()}`} labelColor={themeDark} valueColor={themeSecondary} />
+
+      <div className="w-full h-1.5 mb-2 relative overflow-hidden border" style={{backgroundColor: themeDark + '30', borderColor: themeDark + '50'}}>
+        <div className="absolute top-0 left-0 h-full" style={{width: `${progress * 100}%`, backgroundColor: themeColor}}></div>
+      </div>
+
+      <div className="mb-1 pb-1 border-b" style={{color: themeDark, borderColor: themeDark + '50'}}>RELATED INTEL ({related.length})</div>
+      <div className="max-h-32 overflow-y-auto mb-2">
+        {related.length === 0 ? (
+          <div style={{color: themeDark}}>NO TRAFFIC</div>
+        ) : related.map(log => (
+          <div key={log.id} className="mb-1 leading-tight">
+            <span className="tabular-nums mr-1" style={{color: themeDark}}>{log.timestamp}</span>
+            <span style={{color: PRIORITY_COLORS[log.priority] ?? themeLight}}>{log.message}</span>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-2 gap-1">
+        <button className="px-1 py-1 text-[9px] border transition-all" style={buttonStyle} onClick={onFlyTo}>FLY TO</button>
+        <button className="px-1 py-1 text-[9px] border transition-all" style={buttonStyle} onClick={onClose}>CLOSE</button>
+      </div>
+    </HudBox>
+  );
+};
+
+export default StationDetailPanel;
@@ -0,0 +1,15 @@
+import React, { createContext, useContext } from 'react';
+import { Theme, ViewMode } from '../types';
+import { getTheme, THEMES } from '../services/themes';
+
+// Active view-mode theme for the HUD and globe. react-three-fiber bridges context into
+// its Canvas, so scene components can read it too.
+const ThemeContext = createContext<Theme>(THEMES[ViewMode.OPTICAL]);
+
+export const ThemeProvider = ({ mode, children }: { mode: ViewMode, children: React.ReactNode }) => (
+  <ThemeContext.Provider value={getTheme(mode)}>
+    {children}
+  </ThemeContext.Provider>
+);
+
+export const useTheme = (): Theme => useContext(ThemeContext);
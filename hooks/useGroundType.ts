@@ -0,0 +1,23 @@
+import { useState, useEffect, useMemo } from 'react';
+import { GroundType } from '../types';
+import { loadLandLookup } from '../services/geoOverlays';
+
+// What is under the sleigh: the city while he's over a station, otherwise land or ocean
+// from the bundled land polygons (ocean until they've loaded)
+export const useGroundType = (coordinates: [number, number], overStation: boolean): GroundType => {
+  const [isLand, setIsLand] = useState<((coordinates: [number, number]) => boolean) | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadLandLookup()
+      .then(lookup => { if (!cancelled) setIsLand(() => lookup); })
+      .catch(() => {}); // Stays ocean, as before the polygons load
+    return () => { cancelled = true; };
+  }, []);
+
+  const [lat, lon] = coordinates;
+  return useMemo(() => {
+    if (overStation) return 'CITY';
+    return isLand && isLand([lat, lon]) ? 'LAND' : 'OCEAN';
+  }, [overStation, isLand, lat, lon]);
+};
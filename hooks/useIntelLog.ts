@@ -0,0 +1,15 @@
+import { useState, useEffect } from 'react';
+import { IntelLogEntry } from '../types';
+import { intelLog, IntelLogStore } from '../services/intelLogStore';
+
+// Current log history, re-rendering whenever entries are added or cleared
+export const useIntelLog = (store: IntelLogStore = intelLog): IntelLogEntry[] => {
+  const [entries, setEntries] = useState(() => store.getEntries());
+
+  useEffect(() => {
+    setEntries(store.getEntries());
+    return store.subscribe(setEntries);
+  }, [store]);
+
+  return entries;
+};
@@ -0,0 +1,25 @@
+import { useEffect, useRef } from 'react';
+
+// Global single-key shortcuts (case-insensitive). Ignored while typing in a form field or
+// with a modifier held, so they never fight the log search box or browser shortcuts.
+export const useKeyboardShortcuts = (bindings: Record<string, () => void>): void => {
+  // Latest bindings without re-registering the listener every render
+  const bindingsRef = useRef(bindings);
+  bindingsRef.current = bindings;
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.ctrlKey || e.metaKey || e.altKey) return;
+      const target = e.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ['INPUT', 'SELECT', 'TEXTAREA'].includes(target.tagName))) return;
+
+      const action = bindingsRef.current[e.key.toLowerCase()];
+      if (action) {
+        e.preventDefault();
+        action();
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
+};
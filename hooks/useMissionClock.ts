@@ -0,0 +1,22 @@
+import { useState, useEffect } from 'react';
+import { missionClock, ClockState, MissionClock } from '../services/missionClock';
+
+// Re-renders every tick and immediately whenever the clock is seeked, paused or re-rated
+export const useMissionClock = (tickMs: number = 1000, clock: MissionClock = missionClock): { now: Date, clockState: ClockState } => {
+  const [now, setNow] = useState(() => clock.now());
+  const [clockState, setClockState] = useState(() => clock.getState());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(clock.now()), tickMs);
+    const unsubscribe = clock.subscribe(state => {
+      setClockState(state);
+      setNow(clock.now());
+    });
+    return () => {
+      clearInterval(timer);
+      unsubscribe();
+    };
+  }, [tickMs, clock]);
+
+  return { now, clockState };
+};
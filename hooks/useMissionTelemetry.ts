@@ -0,0 +1,16 @@
+import { useState, useEffect } from 'react';
+import { missionTelemetry, MissionTelemetry, TelemetryStore } from '../services/missionTelemetry';
+
+// Latest mission telemetry. Every component using this shares the one store, which
+// keeps ticking for as long as at least one of them is mounted.
+export const useMissionTelemetry = (store: TelemetryStore = missionTelemetry): MissionTelemetry => {
+  const [telemetry, setTelemetry] = useState(() => store.getSnapshot());
+
+  useEffect(() => {
+    const unsubscribe = store.subscribe(setTelemetry);
+    setTelemetry(store.getSnapshot());
+    return unsubscribe;
+  }, [store]);
+
+  return telemetry;
+};
@@ -0,0 +1,38 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { getDeliveryStatus } from './deliveryModel';
+import { TRACKING_STATIONS, buildFlightPlan, setTrackingRoute } from './trackingService';
+import { getMissionWindow } from './missionClock';
+
+const YEAR = 2025;
+const { start, end } = getMissionWindow(YEAR);
+
+describe('getDeliveryStatus', () => {
+  afterEach(() => {
+    setTrackingRoute(TRACKING_STATIONS);
+  });
+
+  it('delivers every stop in full by the end of the mission', () => {
+    const plan = buildFlightPlan(YEAR);
+    const status = getDeliveryStatus(end, plan);
+    expect(status.stationTotals).toHaveLength(TRACKING_STATIONS.length);
+    expect(status.delivered).toBe(status.target);
+    expect(status.stationTotals.reduce((sum, total) => sum + total, 0)).toBe(status.delivered);
+  });
+
+  it('delivers nothing before launch', () => {
+    const status = getDeliveryStatus(new Date(start.getTime() - 1), buildFlightPlan(YEAR));
+    expect(status.delivered).toBe(0);
+    expect(status.stationTotals.every(total => total === 0)).toBe(true);
+  });
+
+  it('keeps stations that share a name apart', () => {
+    setTrackingRoute([
+      { name: 'SPRINGFIELD', region: 'N. AMERICA', offset: -5, timeZone: 'America/New_York', coordinates: [42.1, -72.59], population: 1000 },
+      { name: 'SPRINGFIELD', region: 'N. AMERICA', offset: -6, timeZone: 'America/Chicago', coordinates: [39.78, -89.65], population: 3000 }
+    ]);
+    const plan = buildFlightPlan(YEAR);
+    const status = getDeliveryStatus(end, plan);
+    expect(status.stationTotals).toEqual([1000, 3000]);
+    expect(status.delivered).toBe(4000);
+  });
+});
@@ -0,0 +1,64 @@
+import { TrackingLocation } from '../types';
+import type { FlightLeg } from './trackingService';
+
+// Gift delivery model: each stop delivers its population's worth of gifts evenly
+// between the moment the sleigh lands there and the moment it departs. Nothing is
+// delivered in transit, so the counter is monotonic and tied to where Santa actually is.
+
+export interface DeliveryStatus {
+  delivered: number;                     // Cumulative gifts delivered so far
+  ratePerSecond: number;                 // Current delivery rate (0 while in transit)
+  target: number;                        // Total gifts for the whole route
+  stationTotals: number[];               // Gifts delivered so far, per stop in route order (as StationSchedule.index)
+}
+
+// Per-stop payload for stations without a population figure (e.g. custom routes)
+const REGION_WEIGHTS: Record<string, number> = {
+  'PACIFIC': 5000000,
+  'NEW ZEALAND': 8000000,
+  'AUSTRALIA': 30000000,
+  'ASIA': 250000000,
+  'RUSSIA': 80000000,
+  'EUROPE': 150000000,
+  'AFRICA': 200000000,
+  'ATLANTIC': 10000000,
+  'N. AMERICA': 100000000,
+  'S. AMERICA': 150000000,
+  'MIDDLE EAST': 100000000,
+  'ARCTIC': 0
+};
+
+export const getStationPayload = (station: TrackingLocation): number => {
+  return station.population ?? REGION_WEIGHTS[station.region] ?? 0;
+};
+
+export const getDeliveryStatus = (now: Date, plan: FlightLeg[]): DeliveryStatus => {
+  const t = now.getTime();
+  const stationTotals: number[] = [];
+  let delivered = 0;
+  let ratePerSecond = 0;
+  let target = 0;
+
+  // The final leg returns to the North Pole, so only legs with a following departure are stops
+  for (let i = 0; i < plan.length - 1; i++) {
+    const station = plan[i].to;
+    const payload = getStationPayload(station);
+    const start = plan[i].arriveAt;
+    const end = plan[i + 1].departAt;
+
+    let fraction = 0;
+    if (t >= end) {
+      fraction = 1;
+    } else if (t >= start) {
+      fraction = (t - start) / (end - start);
+      ratePerSecond = payload / ((end - start) / 1000);
+    }
+
+    const stationDelivered = Math.floor(payload * fraction);
+    stationTotals.push(stationDelivered);
+    delivered += stationDelivered;
+    target += payload;
+  }
+
+  return { delivered, ratePerSecond, target, stationTotals };
+};
@@ -0,0 +1,140 @@
+import * as THREE from 'three';
+import { loadLandPolygons } from './geoOverlays';
+
+// Earth imagery for the globe, served as static assets (public/textures/earth/ by default).
+// TEXTURE_BASE_URL points it at a self-hosted mirror or CDN with the same file names, and
+// TEXTURE_RESOLUTION pins a size instead of picking one per device. If no set can be
+// loaded the globe is painted procedurally from the bundled land polygons.
+
+export type TextureResolution = '1k' | '2k' | '4k';
+
+export interface EarthTextureUrls {
+  color: string;
+  specular: string; // Ocean mask (white = ocean)
+  lights: string;   // City lights at night (NASA Black Marble), greyscale
+}
+
+const TEXTURE_FILES: Record<TextureResolution, EarthTextureUrls> = {
+  '1k': { color: 'earth_atmos_1024.jpg', specular: 'earth_specular_1024.jpg', lights: 'earth_lights_1024.jpg' },
+  '2k': { color: 'earth_atmos_2048.jpg', specular: 'earth_specular_2048.jpg', lights: 'earth_lights_2048.jpg' },
+  '4k': { color: 'earth_atmos_4096.jpg', specular: 'earth_specular_2048.jpg', lights: 'earth_lights_4096.jpg' } // The mask gains nothing past 2k
+};
+
+// Largest first, so a failed load can step down
+const RESOLUTIONS: TextureResolution[] = ['4k', '2k', '1k'];
+
+// public/ is served from the app's base URL (vite.config.ts `base`), not the current page
+export const TEXTURE_BASE_URL = process.env.TEXTURE_BASE_URL || `${import.meta.env.BASE_URL}textures/earth/`;
+
+const isResolution = (value: unknown): value is TextureResolution => RESOLUTIONS.includes(value as TextureResolution);
+
+export const getEarthTextureUrls = (resolution: TextureResolution, baseUrl: string = TEXTURE_BASE_URL): EarthTextureUrls => {
+  const base = baseUrl.endsWith('/') ? baseUrl : baseUrl + '/';
+  const files = TEXTURE_FILES[resolution];
+  return { color: base + files.color, specular: base + files.specular, lights: base + files.lights };
+};
+
+export interface DeviceProfile {
+  maxTextureSize: number; // From the WebGL context
+  pixelRatio: number;
+  deviceMemory?: number;  // GB, where the browser reports it
+}
+
+// 4k only for high-density screens on GPUs with headroom, 1k for small GPUs or low-memory devices
+export const pickTextureResolution = ({ maxTextureSize, pixelRatio, deviceMemory }: DeviceProfile): TextureResolution => {
+  if (isResolution(process.env.TEXTURE_RESOLUTION)) return process.env.TEXTURE_RESOLUTION;
+  if (maxTextureSize < 2048 || (deviceMemory !== undefined && deviceMemory <= 2)) return '1k';
+  if (maxTextureSize >= 8192 && pixelRatio >= 2 && (deviceMemory === undefined || deviceMemory >= 8)) return '4k';
+  return '2k';
+};
+
+export interface EarthTextures {
+  color: THREE.Texture;
+  specular: THREE.Texture;
+  lights: THREE.Texture | null; // Optional: without it the night side is just dark
+  source: TextureResolution | 'PROCEDURAL';
+}
+
+export type EarthImageryStatus =
+  | { state: 'LOADING', resolution: TextureResolution }
+  | { state: 'READY', source: EarthTextures['source'] }
+  | { state: 'FALLBACK', error: string }      // Painted procedurally
+  | { state: 'UNAVAILABLE', error: string };  // Not even that: the wireframe placeholder stays
+
+const loader = new THREE.TextureLoader();
+
+// Tries the requested resolution, then each smaller one; rejects with the last error
+export const loadEarthTextures = async (resolution: TextureResolution, baseUrl: string = TEXTURE_BASE_URL): Promise<EarthTextures> => {
+  let lastError: unknown = null;
+  for (const candidate of RESOLUTIONS.slice(RESOLUTIONS.indexOf(resolution))) {
+    const urls = getEarthTextureUrls(candidate, baseUrl);
+    try {
+      const [color, specular, lights] = await Promise.all([
+        loader.loadAsync(urls.color),
+        loader.loadAsync(urls.specular),
+        loader.loadAsync(urls.lights).catch(() => null) // Optional: the night side just stays dark
+      ]);
+      return { color, specular, lights, source: candidate };
+    } catch (err) {
+      lastError = err;
+    }
+  }
+  throw lastError;
+};
+
+// --- Procedural fallback ---
+
+// Equirectangular colour map and ocean mask painted from the land polygons
+export const createProceduralEarth = async (width: number = 2048): Promise<EarthTextures> => {
+  const polygons = await loadLandPolygons();
+  const height = width / 2;
+  const toX = (lon: number) => ((lon + 180) / 360) * width;
+  const toY = (lat: number) => ((90 - lat) / 180) * height;
+
+  const paint = (draw: (ctx: CanvasRenderingContext2D, land: () => void) => void): THREE.CanvasTexture => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('2D canvas unavailable');
+
+    const land = () => {
+      polygons.forEach(rings => {
+        ctx.beginPath();
+        rings.forEach(ring => ring.forEach(([lat, lon], i) => i === 0 ? ctx.moveTo(toX(lon), toY(lat)) : ctx.lineTo(toX(lon), toY(lat))));
+        ctx.fill('evenodd');
+      });
+      // Antarctica's outline stops short of the pole
+      ctx.fillRect(0, toY(-84), width, height - toY(-84));
+    };
+    draw(ctx, land);
+    return new THREE.CanvasTexture(canvas);
+  };
+
+  const color = paint((ctx, land) => {
+    const ocean = ctx.createLinearGradient(0, 0, 0, height);
+    ocean.addColorStop(0, '#0a1a2e');
+    ocean.addColorStop(0.5, '#12365c');
+    ocean.addColorStop(1, '#0a1a2e');
+    ctx.fillStyle = ocean;
+    ctx.fillRect(0, 0, width, height);
+
+    ctx.fillStyle = '#4a5e3a';
+    land();
+
+    // Ice towards the poles, on land only
+    ctx.globalCompositeOperation = 'source-atop';
+    ctx.fillStyle = '#dde6ea';
+    ctx.fillRect(0, 0, width, toY(68));
+    ctx.fillRect(0, toY(-62), width, height - toY(-62));
+  });
+
+  const specular = paint((ctx, land) => {
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, width, height);
+    ctx.fillStyle = '#000000';
+    land();
+  });
+
+  return { color, specular, lights: null, source: 'PROCEDURAL' };
+};
@@ -0,0 +1,59 @@
+// Spherical geometry helpers shared by the flight model and the HUD.
+// All coordinates are [lat, lon] in degrees.
+
+export const EARTH_RADIUS_KM = 6371;
+
+const toRad = (deg: number) => deg * (Math.PI / 180);
+const toDeg = (rad: number) => rad * (180 / Math.PI);
+
+// Wrap a longitude into [-180, 180)
+export const normalizeLon = (lon: number): number => ((lon + 540) % 360) - 180;
+
+// Angular distance between two points in radians (haversine)
+export const angularDistance = (from: [number, number], to: [number, number]): number => {
+  const dLat = toRad(to[0] - from[0]);
+  const dLon = toRad(to[1] - from[1]);
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(from[0])) * Math.cos(toRad(to[0])) * Math.sin(dLon / 2) ** 2;
+  return 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+};
+
+export const distanceKm = (from: [number, number], to: [number, number]): number => {
+  return angularDistance(from, to) * EARTH_RADIUS_KM;
+};
+
+// Point at fraction t (0..1) along the great circle from -> to
+export const interpolateGreatCircle = (from: [number, number], to: [number, number], t: number): [number, number] => {
+  const d = angularDistance(from, to);
+  if (d < 1e-9) return [from[0], from[1]];
+
+  const lat1 = toRad(from[0]), lon1 = toRad(from[1]);
+  const lat2 = toRad(to[0]), lon2 = toRad(to[1]);
+  const a = Math.sin((1 - t) * d) / Math.sin(d);
+  const b = Math.sin(t * d) / Math.sin(d);
+
+  const x = a * Math.cos(lat1) * Math.cos(lon1) + b * Math.cos(lat2) * Math.cos(lon2);
+  const y = a * Math.cos(lat1) * Math.sin(lon1) + b * Math.cos(lat2) * Math.sin(lon2);
+  const z = a * Math.sin(lat1) + b * Math.sin(lat2);
+
+  return [toDeg(Math.atan2(z, Math.sqrt(x * x + y * y))), normalizeLon(toDeg(Math.atan2(y, x)))];
+};
+
+// Initial great-circle bearing in degrees clockwise from true north (0..360)
+export const initialBearing = (from: [number, number], to: [number, number]): number => {
+  const lat1 = toRad(from[0]), lat2 = toRad(to[0]);
+  const dLon = toRad(to[1] - from[1]);
+  const y = Math.sin(dLon) * Math.cos(lat2);
+  const x = Math.cos(lat1) * Math.sin(lat2) - Math.sin(lat1) * Math.cos(lat2) * Math.cos(dLon);
+  return (toDeg(Math.atan2(y, x)) + 360) % 360;
+};
+
+// Earth-centred unit vector using the same axis convention as the globe (Y up)
+export const latLonToUnitVector = (lat: number, lon: number): [number, number, number] => {
+  const phi = toRad(90 - lat);
+  const theta = toRad(lon + 180);
+  return [
+    -(Math.sin(phi) * Math.cos(theta)),
+    Math.cos(phi),
+    Math.sin(phi) * Math.sin(theta)
+  ];
+};
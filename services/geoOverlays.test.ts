@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { getTimezoneBands, getTimezoneBandAt, getTimezoneBoundaries, getBandDate } from './geoOverlays';
+import { TRACKING_STATIONS, buildFlightPlan, getFlightState } from './trackingService';
+import { getMissionWindow } from './missionClock';
+import { christmasEndsAt, getUtcOffsetMinutes } from './timezone';
+
+const YEAR = 2025;
+const { start, end } = getMissionWindow(YEAR);
+const CHRISTMAS_DAY = new Date(Date.UTC(YEAR, 11, 25));
+const bands = getTimezoneBands();
+
+describe('getTimezoneBands', () => {
+  it('covers the whole globe', () => {
+    for (let lat = -90; lat <= 90; lat += 10) {
+      for (let lon = -180; lon < 180; lon += 10) {
+        expect(getTimezoneBandAt(bands, [lat, lon])).not.toBeNull();
+      }
+    }
+  });
+
+  it('includes the UTC+13 and UTC+14 zones', () => {
+    const offsets = new Set(bands.map(band => getUtcOffsetMinutes(band, CHRISTMAS_DAY)));
+    expect(offsets.has(13 * 60)).toBe(true);
+    expect(offsets.has(14 * 60)).toBe(true);
+    expect(offsets.has(-11 * 60)).toBe(true);
+  });
+
+  it('puts every station in a band with its own offset', () => {
+    TRACKING_STATIONS.forEach(station => {
+      const band = getTimezoneBandAt(bands, station.coordinates);
+      expect(band, station.name).not.toBeNull();
+      expect(getUtcOffsetMinutes(band!, CHRISTMAS_DAY), station.name).toBe(getUtcOffsetMinutes(station, CHRISTMAS_DAY));
+      expect(christmasEndsAt(band!, YEAR), station.name).toBe(christmasEndsAt(station, YEAR));
+    });
+  });
+
+  it('puts Kiritimati ahead of the date line, not in UTC-10', () => {
+    const kiritimati = TRACKING_STATIONS.find(station => station.name === 'KIRITIMATI')!;
+    const band = getTimezoneBandAt(bands, kiritimati.coordinates)!;
+    expect(getUtcOffsetMinutes(band, CHRISTMAS_DAY)).toBe(14 * 60);
+  });
+});
+
+describe('getBandDate', () => {
+  it('lights a band as soon as the mission starts', () => {
+    const justAfterLaunch = new Date(start.getTime() + 60000);
+    expect(bands.some(band => getBandDate(band, justAfterLaunch) === 'CHRISTMAS')).toBe(true);
+    expect(bands.every(band => getBandDate(band, new Date(start.getTime() - 60000)) === 'BEFORE')).toBe(true);
+  });
+
+  it('has Christmas over everywhere once the mission window closes', () => {
+    expect(bands.every(band => getBandDate(band, end) === 'AFTER')).toBe(true);
+  });
+
+  it('shows Christmas under the sleigh at every stop', () => {
+    const plan = buildFlightPlan(YEAR);
+    for (let t = start.getTime(); t <= end.getTime(); t += 5 * 60 * 1000) {
+      const now = new Date(t);
+      const flight = getFlightState(now, plan);
+      if (!flight.leg || flight.inTransit || flight.leg.to.name === 'NORTH POLE') continue;
+      const band = getTimezoneBandAt(bands, flight.leg.to.coordinates)!;
+      expect(getBandDate(band, now), `${flight.leg.to.name} at ${now.toISOString()}`).toBe('CHRISTMAS');
+    }
+  });
+});
+
+describe('getTimezoneBoundaries', () => {
+  it('traces an edge between zones with different offsets', () => {
+    const lines = getTimezoneBoundaries(bands, YEAR, 1);
+    expect(lines.length).toBeGreaterThan(0);
+    // The Line Islands (UTC+14) box starts at 161.5W, inside the UTC-11 strip
+    const lineIslandsEdge = lines.some(([[latA, lonA], [latB, lonB]]) => lonA === -161 && lonB === -161 && latA >= -12 && latB <= 6);
+    expect(lineIslandsEdge).toBe(true);
+  });
+
+  it('traces no edge between zones sharing an offset', () => {
+    // UK and Portugal are both on UTC in December; the Ireland box meets the UK one at 6W
+    const lines = getTimezoneBoundaries(bands, YEAR, 1);
+    const irishSea = lines.some(([[latA, lonA], [latB, lonB]]) => lonA === -6 && lonB === -6 && latA >= 52 && latB <= 55);
+    expect(irishSea).toBe(false);
+  });
+});
@@ -0,0 +1,241 @@
+import { getReplayWindow } from './missionClock';
+import { angularDistance, interpolateGreatCircle, normalizeLon } from './geo';
+import { christmasEndsAt, getUtcOffsetMinutes } from './timezone';
+import timezoneData from '../data/timezones.json';
+
+// Vector overlays for the globe. Data is bundled GeoJSON under data/:
+//   borders.json   - country borders and coastlines (Natural Earth 1:110m, via world-atlas)
+//   land.json      - land polygons, same source (paints the procedural globe when imagery is unavailable)
+//   timezones.json - timezone bands as lat/lon boxes, each tagged with an IANA zone: nominal
+//                    15 degree nautical zones for the open ocean, then the civil zones over
+//                    land and island groups (UTC-11..UTC+14) drawn over them in order; plus
+//                    the international date line (approximate, with its Pacific dog-legs)
+// GeoJSON positions are [lon, lat]; everything returned here is [lat, lon] like the rest of the app.
+
+type Position = number[];
+type Polyline = [number, number][];
+
+type Geometry =
+  | { type: 'LineString', coordinates: Position[] }
+  | { type: 'MultiLineString', coordinates: Position[][] }
+  | { type: 'Polygon', coordinates: Position[][] } // Outer ring, then holes
+  | { type: 'MultiPolygon', coordinates: Position[][][] };
+
+interface Feature {
+  type: 'Feature';
+  properties: Record<string, unknown> | null;
+  geometry: Geometry | null;
+}
+
+interface FeatureCollection {
+  type: 'FeatureCollection';
+  features: Feature[];
+}
+
+export interface TimezoneBox {
+  west: number; // Longitude bounds in degrees
+  east: number;
+  south: number; // Latitude bounds in degrees
+  north: number;
+}
+
+export interface TimezoneBand {
+  name: string;
+  timeZone: string; // IANA zone, so the date matches the stations' (daylight time included)
+  offset: number;   // Hours from UTC, used when the runtime doesn't know the zone
+  boxes: TimezoneBox[];
+}
+
+export type BandDate = 'BEFORE' | 'CHRISTMAS' | 'AFTER';
+
+const toLatLon = ([lon, lat]: Position): [number, number] => [lat, lon];
+
+// Every line in a collection: LineStrings, MultiLineStrings and polygon rings
+const collectLines = (collection: FeatureCollection, include: (feature: Feature) => boolean = () => true): Polyline[] => {
+  const lines: Polyline[] = [];
+  collection.features.filter(include).forEach(({ geometry }) => {
+    if (!geometry) return;
+    switch (geometry.type) {
+      case 'LineString': lines.push(geometry.coordinates.map(toLatLon)); break;
+      case 'MultiLineString':
+      case 'Polygon': geometry.coordinates.forEach(line => lines.push(line.map(toLatLon))); break;
+      case 'MultiPolygon': geometry.coordinates.forEach(polygon => polygon.forEach(ring => lines.push(ring.map(toLatLon)))); break;
+    }
+  });
+  return lines;
+};
+
+// Adds great-circle points so no step is longer than maxStepDeg (long chords would cut through the globe)
+export const densify = (line: Polyline, maxStepDeg: number = 2): Polyline => {
+  const dense: Polyline = [];
+  for (let i = 0; i < line.length - 1; i++) {
+    const steps = Math.max(1, Math.ceil(angularDistance(line[i], line[i + 1]) * (180 / Math.PI) / maxStepDeg));
+    for (let s = 0; s < steps; s++) dense.push(interpolateGreatCircle(line[i], line[i + 1], s / steps));
+  }
+  if (line.length > 0) dense.push(line[line.length - 1]);
+  return dense;
+};
+
+// Meridians and parallels every stepDeg degrees
+export const getGraticule = (stepDeg: number = 15): Polyline[] => {
+  const lines: Polyline[] = [];
+  for (let lon = -180; lon < 180; lon += stepDeg) {
+    const meridian: Polyline = [];
+    for (let lat = -90; lat <= 90; lat += 2) meridian.push([lat, lon]);
+    lines.push(meridian);
+  }
+  for (let lat = -90 + stepDeg; lat < 90; lat += stepDeg) {
+    const parallel: Polyline = [];
+    for (let lon = -180; lon <= 180; lon += 2) parallel.push([lat, lon]);
+    lines.push(parallel);
+  }
+  return lines;
+};
+
+// Bounds of one polygon's outer ring
+const toBox = (ring: Position[]): TimezoneBox => {
+  const lons = ring.map(([lon]) => lon);
+  const lats = ring.map(([, lat]) => lat);
+  return { west: Math.min(...lons), east: Math.max(...lons), south: Math.min(...lats), north: Math.max(...lats) };
+};
+
+// A zone feature as a band; null for anything else in the file (the date line)
+const toBand = ({ properties, geometry }: Feature): TimezoneBand | null => {
+  const { name, timeZone, offset } = properties ?? {};
+  if (typeof name !== 'string' || typeof timeZone !== 'string' || typeof offset !== 'number' || !geometry) return null;
+  switch (geometry.type) {
+    case 'Polygon': return { name, timeZone, offset, boxes: [toBox(geometry.coordinates[0])] };
+    case 'MultiPolygon': return { name, timeZone, offset, boxes: geometry.coordinates.map(polygon => toBox(polygon[0])) };
+    default: return null;
+  }
+};
+
+// In drawing order: where bands overlap, the later one applies
+export const getTimezoneBands = (): TimezoneBand[] => (timezoneData as FeatureCollection).features
+  .map(toBand)
+  .filter((band): band is TimezoneBand => band !== null);
+
+const inBox = (box: TimezoneBox, lat: number, lon: number) =>
+  lon >= box.west && lon < box.east && lat >= box.south && lat <= box.north;
+
+// The band a point falls in (the last one drawn there)
+export const getTimezoneBandAt = (bands: TimezoneBand[], [lat, lon]: [number, number]): TimezoneBand | null => {
+  const wrapped = lon >= 180 ? lon - 360 : lon;
+  for (let i = bands.length - 1; i >= 0; i--) {
+    if (bands[i].boxes.some(box => inBox(box, lat, wrapped))) return bands[i];
+  }
+  return null;
+};
+
+// Segments along every edge where the UTC offset changes, traced on a stepDeg grid.
+// Offsets are resolved for the given mission's December, so daylight time is accounted for.
+export const getTimezoneBoundaries = (bands: TimezoneBand[], year: number, stepDeg: number = 0.5): Polyline[] => {
+  const at = new Date(Date.UTC(year, 11, 25));
+  const offsets = bands.map(band => getUtcOffsetMinutes(band, at));
+  const columns = Math.round(360 / stepDeg);
+  const rows = Math.round(180 / stepDeg);
+
+  // Paint band indices into the grid in drawing order, sampling cell centres
+  const grid = new Int16Array(columns * rows).fill(-1);
+  bands.forEach((band, index) => band.boxes.forEach(box => {
+    const x0 = Math.max(0, Math.round((box.west + 180) / stepDeg));
+    const x1 = Math.min(columns, Math.round((box.east + 180) / stepDeg));
+    const y0 = Math.max(0, Math.round((box.south + 90) / stepDeg));
+    const y1 = Math.min(rows, Math.round((box.north + 90) / stepDeg));
+    for (let y = y0; y < y1; y++) grid.fill(index, y * columns + x0, y * columns + x1);
+  }));
+  const offsetAt = (x: number, y: number) => {
+    const index = grid[y * columns + ((x + columns) % columns)];
+    return index < 0 ? null : offsets[index];
+  };
+
+  const lines: Polyline[] = [];
+  for (let y = 0; y < rows; y++) {
+    for (let x = 0; x < columns; x++) {
+      const lon = x * stepDeg - 180;
+      const lat = y * stepDeg - 90;
+      // West edge of the cell, and its south edge
+      if (offsetAt(x, y) !== offsetAt(x - 1, y)) lines.push([[lat, lon], [lat + stepDeg, lon]]);
+      if (y > 0 && offsetAt(x, y) !== offsetAt(x, y - 1)) lines.push([[lat, lon], [lat, lon + stepDeg]]);
+    }
+  }
+  return lines;
+};
+
+export const getDateLine = (): Polyline[] =>
+  collectLines(timezoneData as FeatureCollection, feature => feature.properties?.dateLine === true).map(line => densify(line));
+
+// Borders are the bulk of the data, so they're only fetched once the overlay is turned on
+let bordersPromise: Promise<Polyline[]> | null = null;
+export const loadBorders = (): Promise<Polyline[]> => {
+  if (!bordersPromise) {
+    bordersPromise = import('../data/borders.json').then(module => collectLines(module.default as FeatureCollection));
+  }
+  return bordersPromise;
+};
+
+// Land as polygons (outer ring first, then holes), for painting rather than stroking
+let landPromise: Promise<Polyline[][]> | null = null;
+export const loadLandPolygons = (): Promise<Polyline[][]> => {
+  if (!landPromise) {
+    landPromise = import('../data/land.json').then(module => {
+      const polygons: Polyline[][] = [];
+      (module.default as FeatureCollection).features.forEach(({ geometry }) => {
+        if (geometry?.type === 'Polygon') polygons.push(geometry.coordinates.map(ring => ring.map(toLatLon)));
+        if (geometry?.type === 'MultiPolygon') geometry.coordinates.forEach(polygon => polygons.push(polygon.map(ring => ring.map(toLatLon))));
+      });
+      return polygons;
+    });
+  }
+  return landPromise;
+};
+
+// Even-odd ray cast against one ring
+const insideRing = (ring: Polyline, lat: number, lon: number): boolean => {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [latI, lonI] = ring[i];
+    const [latJ, lonJ] = ring[j];
+    if ((latI > lat) !== (latJ > lat) && lon < (lonJ - lonI) * (lat - latI) / (latJ - latI) + lonI) inside = !inside;
+  }
+  return inside;
+};
+
+// Longitudes made continuous along a ring, so one crossing the antimeridian runs past +-180
+const unwrapRing = (ring: Polyline): Polyline => {
+  let offset = 0;
+  return ring.map(([lat, lon], i) => {
+    if (i > 0) {
+      const step = lon - ring[i - 1][1];
+      if (step > 180) offset -= 360;
+      else if (step < -180) offset += 360;
+    }
+    return [lat, lon + offset];
+  });
+};
+
+// Land / water test built on the land polygons (holes count as water)
+export const loadLandLookup = (): Promise<(coordinates: [number, number]) => boolean> =>
+  loadLandPolygons().then(polygons => {
+    const unwrapped = polygons.map(rings => rings.map(unwrapRing));
+    const inRing = (ring: Polyline, lat: number, lon: number) =>
+      insideRing(ring, lat, lon) || insideRing(ring, lat, lon + 360) || insideRing(ring, lat, lon - 360);
+    return ([lat, lon]) =>
+      lat < -84 || unwrapped.some(rings => rings.reduce((inside, ring) => inside !== inRing(ring, lat, lon), false));
+  });
+
+// Whether Christmas Day has started / finished in a band, for this mission's December.
+// Resolved through the band's IANA zone like the stations, so they always agree.
+export const getBandDate = (band: TimezoneBand, now: Date): BandDate => {
+  const year = getReplayWindow(now).start.getUTCFullYear();
+  const christmasEnd = christmasEndsAt(band, year);
+  const t = now.getTime();
+  if (t < christmasEnd - 24 * 60 * 60 * 1000) return 'BEFORE';
+  return t < christmasEnd ? 'CHRISTMAS' : 'AFTER';
+};
+
+// Longitude where it is currently midnight (mean solar time, i.e. nominal zone time)
+export const getMidnightLongitude = (now: Date): number => {
+  const utcMinutes = (now.getTime() % 86400000 + 86400000) % 86400000 / 60000;
+  return normalizeLon(-utcMinutes / 4);
+};
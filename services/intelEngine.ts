@@ -0,0 +1,121 @@
+import { IntelLogEntry, IntelEventType, MissionPhase } from '../types';
+
+// Event-driven intel: compares consecutive tracking snapshots and emits typed,
+// prioritised events for the things an operator would actually call out.
+// Random chatter from the intel service sits underneath these at LOW priority.
+
+export interface TrackingSnapshot {
+  at: number; // UTC epoch ms (mission clock)
+  phase: MissionPhase;
+  legIndex: number;
+  inTransit: boolean;
+  locationName: string;
+  region: string;
+  coordinates: [number, number];
+  delivered: number;
+}
+
+export interface IntelEvent {
+  type: IntelEventType;
+  priority: IntelLogEntry['priority'];
+  message: string;
+  region: string;
+  station: string;
+  at: number;
+}
+
+export const DELIVERY_MILESTONE = 500000000;
+
+const isAirborne = (phase: MissionPhase) => phase === MissionPhase.ACTIVE || phase === MissionPhase.RETURNING;
+
+export const detectIntelEvents = (prev: TrackingSnapshot | null, next: TrackingSnapshot): IntelEvent[] => {
+  // Nothing to compare on first load
+  if (!prev) return [];
+
+  const events: IntelEvent[] = [];
+  const emit = (type: IntelEventType, priority: IntelLogEntry['priority'], message: string, station: string = next.locationName) => {
+    events.push({ type, priority, message, region: next.region, station, at: next.at });
+  };
+
+  // Launch / return
+  if (prev.phase === MissionPhase.PRE_LAUNCH && isAirborne(next.phase)) {
+    emit('LAUNCH', 'CRITICAL', 'LAUNCH DETECTED: RED SLED AIRBORNE FROM NORTH POLE');
+  }
+  if (prev.phase !== MissionPhase.RETURNING && next.phase === MissionPhase.RETURNING) {
+    emit('RETURN', 'HIGH', 'FINAL DELIVERY COMPLETE // RTB NORTH POLE');
+  }
+  if (isAirborne(prev.phase) && next.phase === MissionPhase.COMPLETE) {
+    emit('RETURN', 'CRITICAL', 'WHEELS DOWN AT NORTH POLE // MISSION COMPLETE');
+  }
+
+  if (isAirborne(next.phase)) {
+    // Departure: a new leg has started
+    if (next.legIndex > prev.legIndex && next.inTransit && prev.legIndex >= 0) {
+      emit('DEPARTURE', 'MED', `DEPARTING ${prev.locationName} // VECTOR TO ${next.locationName}`, prev.locationName);
+    }
+
+    // Arrival: landed on a leg we were flying (or jumped straight past it)
+    if (!next.inTransit && (prev.inTransit || next.legIndex !== prev.legIndex) && next.phase === MissionPhase.ACTIVE) {
+      emit('ARRIVAL', 'HIGH', `ARRIVAL CONFIRMED: ${next.locationName} // DELIVERY SEQUENCE INITIATED`);
+    }
+
+    if (next.region !== prev.region) {
+      emit('REGION_CHANGE', 'HIGH', `ENTERING ${next.region} SECTOR`);
+    }
+
+    // Crossings, only when the two points are on one short hop (not a seek)
+    if (Math.abs(next.at - prev.at) <= 2 * 60 * 60 * 1000) {
+      if (Math.sign(prev.coordinates[0]) !== Math.sign(next.coordinates[0]) && prev.coordinates[0] !== 0) {
+        emit('EQUATOR_CROSSING', 'MED', `EQUATOR CROSSED // NOW IN ${next.coordinates[0] < 0 ? 'SOUTHERN' : 'NORTHERN'} HEMISPHERE`);
+      }
+      const [prevLon, nextLon] = [prev.coordinates[1], next.coordinates[1]];
+      if (Math.abs(prevLon) > 90 && Math.abs(nextLon) > 90 && Math.sign(prevLon) !== Math.sign(nextLon)) {
+        emit('DATE_LINE_CROSSING', 'MED', 'INTERNATIONAL DATE LINE CROSSED // CALENDAR ADJUSTED');
+      }
+    }
+  }
+
+  // Delivery milestones (report the highest one crossed)
+  const prevMilestone = Math.floor(prev.delivered / DELIVERY_MILESTONE);
+  const nextMilestone = Math.floor(next.delivered / DELIVERY_MILESTONE);
+  if (nextMilestone > prevMilestone) {
+    const billions = (nextMilestone * DELIVERY_MILESTONE) / 1000000000;
+    emit('DELIVERY_MILESTONE', nextMilestone % 2 === 0 ? 'CRITICAL' : 'HIGH', `MILESTONE: ${billions.toFixed(1)}B GIFTS DELIVERED`);
+  }
+
+  return events;
+};
+
+export const PRIORITY_RANK: Record<IntelLogEntry['priority'], number> = {
+  CRITICAL: 3,
+  HIGH: 2,
+  MED: 1,
+  LOW: 0
+};
+
+export const createLogEntry = (
+  message: string,
+  priority: IntelLogEntry['priority'],
+  type: IntelEventType,
+  region: string,
+  at: number,
+  station?: string
+): IntelLogEntry => ({
+  id: at.toString() + Math.random(), // Ensure unique ID
+  timestamp: new Date(at).toLocaleTimeString('en-US', {hour12: false}),
+  at,
+  message,
+  priority,
+  type,
+  region,
+  station
+});
+
+// Highest priority first, newest first within a priority
+// (logs are stored newest first, so the original index breaks ties)
+export const sortLogsByPriority = (logs: IntelLogEntry[]): IntelLogEntry[] => {
+  return logs
+    .map((log, index) => ({ log, index }))
+    .sort((a, b) => (PRIORITY_RANK[b.log.priority] - PRIORITY_RANK[a.log.priority]) || a.index - b.index)
+    .map(({ log }) => log);
+};
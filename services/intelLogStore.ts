@@ -0,0 +1,137 @@
+import { IntelLogEntry } from '../types';
+
+// Mission log history. Keeps every entry (newest first) up to a fixed capacity so a
+// full 50-hour mission of chatter can't grow without bound, plus filtering and export
+// for reviewing the log after the event.
+
+export const DEFAULT_LOG_CAPACITY = 5000;
+
+export interface IntelLogStore {
+  getEntries: () => IntelLogEntry[]; // Newest first; a new array on every change
+  append: (entries: IntelLogEntry[]) => void; // Entries newest first
+  restore: (entries: IntelLogEntry[]) => void; // Older history (e.g. from a saved session), newest first
+  clear: () => void;
+  subscribe: (listener: (entries: IntelLogEntry[]) => void) => () => void;
+}
+
+export const createIntelLogStore = (capacity: number = DEFAULT_LOG_CAPACITY): IntelLogStore => {
+  let entries: IntelLogEntry[] = [];
+  const listeners = new Set<(entries: IntelLogEntry[]) => void>();
+
+  const update = (next: IntelLogEntry[]) => {
+    entries = next;
+    listeners.forEach(listener => listener(entries));
+  };
+
+  return {
+    getEntries: () => entries,
+    append: (added) => {
+      if (added.length === 0) return;
+      // Oldest entries fall off the end once we're at capacity
+      update([...added, ...entries].slice(0, capacity));
+    },
+    restore: (restored) => {
+      // Anything logged since load is newer than the restored history
+      const ids = new Set(entries.map(entry => entry.id));
+      update([...entries, ...restored.filter(entry => !ids.has(entry.id))].slice(0, capacity));
+    },
+    clear: () => update([]),
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    }
+  };
+};
+
+// Shared log used by the app
+export const intelLog = createIntelLogStore();
+
+// --- Filtering ---
+
+export interface IntelLogFilter {
+  priorities: IntelLogEntry['priority'][]; // Empty = all priorities
+  region: string | null;                   // null = all regions
+  text: string;                            // Case-insensitive match on message, type and region
+}
+
+export const EMPTY_LOG_FILTER: IntelLogFilter = { priorities: [], region: null, text: '' };
+
+export const filterLogs = (logs: IntelLogEntry[], filter: IntelLogFilter): IntelLogEntry[] => {
+  const text = filter.text.trim().toUpperCase();
+  if (filter.priorities.length === 0 && !filter.region && !text) return logs;
+
+  return logs.filter(log => {
+    if (filter.priorities.length > 0 && !filter.priorities.includes(log.priority)) return false;
+    if (filter.region && log.region !== filter.region) return false;
+    if (text && ![log.message, log.type, log.region].some(field => field && field.toUpperCase().includes(text))) return false;
+    return true;
+  });
+};
+
+// Regions that actually appear in the log, for the filter dropdown
+export const getLogRegions = (logs: IntelLogEntry[]): string[] => {
+  const regions = new Set<string>();
+  logs.forEach(log => { if (log.region) regions.add(log.region); });
+  return [...regions].sort();
+};
+
+// Entries logged at a station or naming it (older saved entries have no station field)
+export const getStationLogs = (logs: IntelLogEntry[], stationName: string): IntelLogEntry[] =>
+  logs.filter(log => log.station === stationName || log.message.includes(stationName));
+
+// --- Export ---
+
+export type LogExportFormat = 'json' | 'csv' | 'txt';
+
+const csvField = (value: string): string => /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+// Exports oldest first (reading order) with ISO-8601 UTC timestamps
+export const exportLogs = (logs: IntelLogEntry[], format: LogExportFormat): string => {
+  const ordered = [...logs].reverse();
+
+  if (format === 'json') {
+    return JSON.stringify(ordered.map(log => ({
+      timestamp: new Date(log.at).toISOString(),
+      priority: log.priority,
+      type: log.type ?? null,
+      region: log.region ?? null,
+      station: log.station ?? null,
+      message: log.message
+    })), null, 2);
+  }
+
+  if (format === 'csv') {
+    const rows = ordered.map(log => [
+      new Date(log.at).toISOString(),
+      log.priority,
+      log.type ?? '',
+      log.region ?? '',
+      log.station ?? '',
+      log.message
+    ].map(csvField).join(','));
+    return ['timestamp,priority,type,region,station,message', ...rows].join('\r\n');
+  }
+
+  return ordered
+    .map(log => `${new Date(log.at).toISOString()} [${log.priority}]${log.type ? ` ${log.type}` : ''}${log.region ? ` (${log.region})` : ''} ${log.message}`)
+    .join('\n');
+};
+
+const EXPORT_MIME_TYPES: Record<LogExportFormat, string> = {
+  json: 'application/json',
+  csv: 'text/csv',
+  txt: 'text/plain'
+};
+
+// Triggers a browser download of the exported log
+export const downloadLogs = (logs: IntelLogEntry[], format: LogExportFormat, at: Date = new Date()): void => {
+  const blob = new Blob([exportLogs(logs, format)], { type: EXPORT_MIME_TYPES[format] });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `intel-log-${at.toISOString().replace(/[:.]/g, '-')}.${format}`;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
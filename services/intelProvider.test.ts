@@ -0,0 +1,149 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createIntelService, templateIntelProvider, IntelContext, IntelProvider } from './intelProvider';
+
+// Scripted stand-in for a remote provider: each call takes the next step, which is a set
+// of lines, an error, or 'HANG' (never answers until aborted)
+type Step = string[] | Error | 'HANG';
+
+const createMockIntelProvider = (steps: Step[]) => {
+  const calls: { context: IntelContext, signal?: AbortSignal }[] = [];
+  const provider: IntelProvider = {
+    name: 'MOCK',
+    generate: (context, signal) => {
+      calls.push({ context, signal });
+      const step = steps.shift();
+      if (!step) return Promise.reject(new Error('Mock provider out of script'));
+      if (step instanceof Error) return Promise.reject(step);
+      if (step === 'HANG') {
+        return new Promise((_, reject) => signal?.addEventListener('abort', () => reject(new Error('Aborted'))));
+      }
+      return Promise.resolve(step);
+    }
+  };
+  return { provider, calls };
+};
+
+const context = (locationName: string = 'TOKYO'): IntelContext => ({
+  locationName,
+  currentRegion: 'ASIA',
+  speed: 4.2,
+  giftsDelivered: 1000,
+  nextStop: 'BEIJING'
+});
+
+const OPTIONS = { minIntervalMs: 20000, cooldownMs: 60000, cacheSize: 3, timeoutMs: 8000 };
+
+describe('createIntelService', () => {
+  let now = 0;
+  const clock = () => now;
+
+  beforeEach(() => {
+    now = 0;
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('uses the template provider when no primary is configured', async () => {
+    const service = createIntelService(null, templateIntelProvider, OPTIONS, clock);
+    const result = await service.generate(context());
+    expect(result.source).toBe('TEMPLATE');
+    expect(result.message.length).toBeGreaterThan(0);
+  });
+
+  it('returns the first line and caches the spares for the location', async () => {
+    const { provider, calls } = createMockIntelProvider([['ONE', 'TWO', 'THREE']]);
+    const service = createIntelService(provider, templateIntelProvider, OPTIONS, clock);
+
+    expect(await service.generate(context())).toEqual({ message: 'ONE', source: 'MOCK' });
+    now = 1000;
+    expect(await service.generate(context())).toEqual({ message: 'TWO', source: 'MOCK (CACHED)' });
+    expect(await service.generate(context())).toEqual({ message: 'THREE', source: 'MOCK (CACHED)' });
+    expect(calls).toHaveLength(1);
+  });
+
+  it('keeps the cache per location and bounded by cacheSize', async () => {
+    const { provider } = createMockIntelProvider([['A0', 'A1', 'A2', 'A3', 'A4'], ['B0', 'B1']]);
+    const service = createIntelService(provider, templateIntelProvider, OPTIONS, clock);
+
+    await service.generate(context('TOKYO'));
+    now = OPTIONS.minIntervalMs;
+    await service.generate(context('GUAM'));
+
+    // Rate limited again: Tokyo's spares are still there, newest cacheSize of them
+    now += 1000;
+    expect((await service.generate(context('TOKYO'))).message).toBe('A2');
+    expect((await service.generate(context('GUAM'))).message).toBe('B1');
+  });
+
+  it('rate limits the primary and falls back once the cache is empty', async () => {
+    const { provider, calls } = createMockIntelProvider([['ONE'], ['TWO']]);
+    const service = createIntelService(provider, templateIntelProvider, OPTIONS, clock);
+
+    await service.generate(context());
+    now = OPTIONS.minIntervalMs - 1;
+    expect((await service.generate(context())).source).toBe('TEMPLATE');
+    expect(calls).toHaveLength(1);
+
+    now = OPTIONS.minIntervalMs;
+    expect(await service.generate(context())).toEqual({ message: 'TWO', source: 'MOCK' });
+    expect(calls).toHaveLength(2);
+  });
+
+  it('falls back on failure and cools down before retrying', async () => {
+    const { provider, calls } = createMockIntelProvider([new Error('503'), ['BACK']]);
+    const service = createIntelService(provider, templateIntelProvider, OPTIONS, clock);
+
+    expect((await service.generate(context())).source).toBe('TEMPLATE');
+
+    // Past the normal interval but still inside the cooldown
+    now = OPTIONS.minIntervalMs + 1;
+    expect((await service.generate(context())).source).toBe('TEMPLATE');
+    expect(calls).toHaveLength(1);
+
+    now = OPTIONS.cooldownMs;
+    expect(await service.generate(context())).toEqual({ message: 'BACK', source: 'MOCK' });
+    expect(calls).toHaveLength(2);
+  });
+
+  it('aborts a call that runs past the timeout and falls back', async () => {
+    vi.useFakeTimers();
+    const { provider, calls } = createMockIntelProvider(['HANG', ['LATE']]);
+    const service = createIntelService(provider, templateIntelProvider, OPTIONS, clock);
+
+    const pending = service.generate(context());
+    await vi.advanceTimersByTimeAsync(OPTIONS.timeoutMs - 1);
+    expect(calls[0].signal?.aborted).toBe(false);
+
+    await vi.advanceTimersByTimeAsync(1);
+    const result = await pending;
+    expect(calls[0].signal?.aborted).toBe(true);
+    expect(result.source).toBe('TEMPLATE');
+
+    // A timeout counts as a failure, so the cooldown applies
+    now = OPTIONS.minIntervalMs;
+    expect((await service.generate(context())).source).toBe('TEMPLATE');
+    expect(calls).toHaveLength(1);
+  });
+
+  it('times out providers that ignore the abort signal', async () => {
+    vi.useFakeTimers();
+    const provider: IntelProvider = { name: 'DEAF', generate: () => new Promise(() => {}) };
+    const service = createIntelService(provider, templateIntelProvider, OPTIONS, clock);
+
+    const pending = service.generate(context());
+    await vi.advanceTimersByTimeAsync(OPTIONS.timeoutMs);
+    expect((await pending).source).toBe('TEMPLATE');
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  it('clears the timeout once the provider answers', async () => {
+    vi.useFakeTimers();
+    const { provider } = createMockIntelProvider([['QUICK']]);
+    const service = createIntelService(provider, templateIntelProvider, OPTIONS, clock);
+
+    expect((await service.generate(context())).message).toBe('QUICK');
+    expect(vi.getTimerCount()).toBe(0);
+  });
+});
@@ -0,0 +1,157 @@
+import type { GoogleGenAI } from '@google/genai';
+import { SantaState } from '../types';
+import { generateIntelMessage } from './trackingService';
+
+// Intel log generation. A provider turns the current telemetry into one log line;
+// the intel service in front of it adds rate limiting, caching and template fallback.
+
+export type IntelContext = Pick<SantaState, 'locationName' | 'currentRegion' | 'speed' | 'giftsDelivered' | 'nextStop'>;
+
+export interface IntelProvider {
+  name: string;
+  // One or more candidate log lines. `signal` aborts when the intel service gives up waiting.
+  generate: (context: IntelContext, signal?: AbortSignal) => Promise<string[]>;
+}
+
+// --- Template provider (offline, always available) ---
+
+export const templateIntelProvider: IntelProvider = {
+  name: 'TEMPLATE',
+  generate: async (context) => [
+    generateIntelMessage(context.locationName, context.currentRegion, context.speed, context.giftsDelivered)
+  ]
+};
+
+// --- Gemini provider ---
+
+const GEMINI_MODEL = 'gemini-2.5-flash';
+
+const SYSTEM_PROMPT = [
+  'You write radar-operator log lines for a military-style Santa Claus tracking dashboard.',
+  'Each line is UPPERCASE, at most 60 characters, terse, playful and family friendly.',
+  'Use the telemetry you are given; never invent a different location.',
+  'Reply with exactly 3 lines and nothing else.'
+].join(' ');
+
+const buildPrompt = (context: IntelContext): string => [
+  `LOCATION: ${context.locationName}`,
+  `REGION: ${context.currentRegion}`,
+  `SPEED: MACH ${context.speed.toFixed(2)}`,
+  `GIFTS DELIVERED: ${context.giftsDelivered.toLocaleString('en-US')}`,
+  `NEXT STOP: ${context.nextStop}`
+].join('\n');
+
+export const createGeminiIntelProvider = (apiKey: string, model: string = GEMINI_MODEL): IntelProvider => {
+  // The SDK is only loaded once a key is configured
+  let client: Promise<GoogleGenAI> | null = null;
+  const getClient = () => {
+    if (!client) {
+      client = import('@google/genai').then(sdk => new sdk.GoogleGenAI({ apiKey }));
+    }
+    return client;
+  };
+
+  return {
+    name: 'GEMINI',
+    generate: async (context, signal) => {
+      const ai = await getClient();
+      const response = await ai.models.generateContent({
+        model,
+        contents: buildPrompt(context),
+        config: {
+          systemInstruction: SYSTEM_PROMPT,
+          temperature: 0.9,
+          maxOutputTokens: 120,
+          abortSignal: signal
+        }
+      });
+      const lines = String(response.text || '')
+        .split('\n')
+        .map(line => line.replace(/^[\s\-*\d.]+/, '').trim().toUpperCase())
+        .filter(line => line.length > 0 && line.length <= 80);
+      if (lines.length === 0) throw new Error('Empty intel response');
+      return lines;
+    }
+  };
+};
+
+// --- Intel service ---
+
+export interface IntelServiceOptions {
+  minIntervalMs: number; // Minimum time between calls to the primary provider
+  cooldownMs: number;    // Back-off after the primary provider fails
+  cacheSize: number;     // Spare lines kept per location
+  timeoutMs: number;     // Primary calls taking longer are aborted and count as failures
+}
+
+const DEFAULT_INTEL_OPTIONS: IntelServiceOptions = {
+  minIntervalMs: 20000,
+  cooldownMs: 60000,
+  cacheSize: 6,
+  timeoutMs: 8000
+};
+
+export interface IntelService {
+  generate: (context: IntelContext) => Promise<{ message: string, source: string }>;
+}
+
+// Runs a provider call, aborting it (and rejecting, in case the provider ignores the
+// signal) once `timeoutMs` has passed
+const withTimeout = <T>(call: (signal: AbortSignal) => Promise<T>, timeoutMs: number): Promise<T> => {
+  const controller = new AbortController();
+  return new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      controller.abort();
+      reject(new Error(`Intel provider timed out after ${timeoutMs}ms`));
+    }, timeoutMs);
+    call(controller.signal).then(resolve, reject).finally(() => clearTimeout(timer));
+  });
+};
+
+// Wraps a primary provider so the log never stalls: between rate-limited calls it serves
+// spare lines cached for the current location, and on any failure or timeout it uses the fallback.
+export const createIntelService = (
+  primary: IntelProvider | null,
+  fallback: IntelProvider = templateIntelProvider,
+  options: Partial<IntelServiceOptions> = {},
+  clock: () => number = () => Date.now()
+): IntelService => {
+  const settings = { ...DEFAULT_INTEL_OPTIONS, ...options };
+  const cache = new Map<string, string[]>();
+  let nextCallAt = 0;
+
+  const fromFallback = async (context: IntelContext) => {
+    const lines = await fallback.generate(context);
+    return { message: lines[0], source: fallback.name };
+  };
+
+  return {
+    generate: async (context) => {
+      if (!primary) return fromFallback(context);
+
+      const key = `${context.locationName}|${context.currentRegion}`;
+      const cached = cache.get(key) || [];
+
+      if (clock() < nextCallAt) {
+        const spare = cached.shift();
+        return spare ? { message: spare, source: `${primary.name} (CACHED)` } : fromFallback(context);
+      }
+
+      nextCallAt = clock() + settings.minIntervalMs;
+      try {
+        const [message, ...spares] = await withTimeout(signal => primary.generate(context, signal), settings.timeoutMs);
+        cache.set(key, [...cached, ...spares].slice(-settings.cacheSize));
+        return { message, source: primary.name };
+      } catch {
+        // The fallback answers instead (its name is the result's source) while the primary cools down
+        nextCallAt = clock() + settings.cooldownMs;
+        return fromFallback(context);
+      }
+    }
+  };
+};
+
+// App-wide service: Gemini when a key is configured, templates otherwise
+export const intelService = createIntelService(
+  process.env.GEMINI_API_KEY ? createGeminiIntelProvider(process.env.GEMINI_API_KEY) : null
+);
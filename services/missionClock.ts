@@ -0,0 +1,79 @@
+// Mission clock: every time-dependent read in the tracker goes through here so the
+// whole mission can be replayed or simulated outside of Christmas.
+
+export type ClockMode = 'LIVE' | 'SIMULATED';
+
+export interface ClockState {
+  mode: ClockMode;
+  rate: number;       // Simulated seconds per real second
+  paused: boolean;
+  anchorReal: number; // Real epoch ms when the simulation was last re-anchored
+  anchorSim: number;  // Simulated epoch ms at anchorReal
+}
+
+export interface MissionClock {
+  now: () => Date;
+  getState: () => ClockState;
+  subscribe: (listener: (state: ClockState) => void) => () => void;
+  goLive: () => void;
+  simulate: (start: Date, rate?: number) => void;
+  play: () => void;
+  pause: () => void;
+  seek: (time: Date) => void;
+  setRate: (rate: number) => void;
+}
+
+export const PLAYBACK_RATES = [1, 60, 600, 1800, 3600];
+
+// Christmas starts in UTC+14 at Dec 24 10:00Z and ends in UTC-12 at Dec 26 12:00Z
+export const getMissionWindow = (year: number): { start: Date, end: Date } => ({
+  start: new Date(Date.UTC(year, 11, 24, 10, 0, 0)),
+  end: new Date(Date.UTC(year, 11, 26, 12, 0, 0))
+});
+
+// The window to replay: this year's, or last year's if we are already in early January
+export const getReplayWindow = (reference: Date = new Date()): { start: Date, end: Date } => {
+  return getMissionWindow(reference.getUTCMonth() === 0 ? reference.getUTCFullYear() - 1 : reference.getUTCFullYear());
+};
+
+export const createMissionClock = (realNow: () => number = () => Date.now()): MissionClock => {
+  let state: ClockState = {
+    mode: 'LIVE',
+    rate: 1,
+    paused: false,
+    anchorReal: realNow(),
+    anchorSim: realNow()
+  };
+  const listeners = new Set<(state: ClockState) => void>();
+
+  const simNow = (): number => {
+    if (state.mode === 'LIVE') return realNow();
+    if (state.paused) return state.anchorSim;
+    return state.anchorSim + (realNow() - state.anchorReal) * state.rate;
+  };
+
+  // Re-anchor at the current simulated instant so rate/pause changes don't jump the clock
+  const update = (patch: Partial<ClockState>) => {
+    const real = realNow();
+    state = { ...state, anchorReal: real, anchorSim: simNow(), ...patch };
+    listeners.forEach(listener => listener(state));
+  };
+
+  return {
+    now: () => new Date(simNow()),
+    getState: () => state,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+    goLive: () => update({ mode: 'LIVE', rate: 1, paused: false }),
+    simulate: (start, rate = state.rate) => update({ mode: 'SIMULATED', anchorSim: start.getTime(), rate, paused: false }),
+    play: () => update({ paused: false }),
+    pause: () => update({ paused: true }),
+    seek: (time) => update({ mode: 'SIMULATED', anchorSim: time.getTime() }),
+    setRate: (rate) => update({ rate: Math.max(0, rate) })
+  };
+};
+
+// Shared clock used by the app, the tracking service and the globe
+export const missionClock = createMissionClock();
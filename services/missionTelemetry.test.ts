@@ -0,0 +1,195 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createTelemetryStore, MissionTelemetry } from './missionTelemetry';
+import { createMissionClock, getMissionWindow, MissionClock } from './missionClock';
+import { buildFlightPlan } from './trackingService';
+import { createIntelLogStore } from './intelLogStore';
+import { IntelService } from './intelProvider';
+import { WeatherProvider, getConditionsAt } from './weatherProvider';
+import { MissionPhase } from '../types';
+
+const YEAR = 2025;
+const { start } = getMissionWindow(YEAR);
+const MID_MISSION = new Date(Date.UTC(YEAR, 11, 25, 12, 0));
+const TICK_MS = 1000;
+
+const intel: IntelService = { generate: vi.fn(async () => ({ message: 'ALL QUIET', source: 'TEST' })) };
+const weather: WeatherProvider = {
+  name: 'TEST',
+  getConditions: vi.fn(async (coordinates: [number, number]) => getConditionsAt([], coordinates)),
+  getSystems: vi.fn(async () => [])
+};
+
+describe('createTelemetryStore', () => {
+  let clock: MissionClock;
+
+  const createStore = () => createTelemetryStore({ clock, intel, weather, log: createIntelLogStore(), tickMs: TICK_MS, chatterMs: 5000 });
+
+  // Collects every snapshot a subscriber is handed
+  const record = (store: ReturnType<typeof createStore>) => {
+    const received: MissionTelemetry[] = [];
+    const unsubscribe = store.subscribe(telemetry => received.push(telemetry));
+    return { received, unsubscribe, last: () => received[received.length - 1] };
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date(Date.UTC(YEAR, 5, 1)));
+    vi.clearAllMocks();
+    clock = createMissionClock();
+    clock.simulate(new Date(start.getTime() - 3600000), 1);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('publishes a snapshot as soon as something subscribes', () => {
+    const store = createStore();
+    const { received, unsubscribe } = record(store);
+    expect(received).toHaveLength(1);
+    expect(received[0].phase).toBe(MissionPhase.PRE_LAUNCH);
+    expect(received[0].now.getTime()).toBe(start.getTime() - 3600000);
+    unsubscribe();
+  });
+
+  it('ticks subscribers along the simulated clock', () => {
+    const store = createStore();
+    const { received, unsubscribe, last } = record(store);
+    vi.advanceTimersByTime(3 * TICK_MS);
+    expect(received).toHaveLength(4);
+    expect(last().now.getTime()).toBe(start.getTime() - 3600000 + 3 * TICK_MS);
+    unsubscribe();
+  });
+
+  it('applies a seek immediately', () => {
+    const store = createStore();
+    const { received, unsubscribe, last } = record(store);
+    const count = received.length;
+    clock.seek(MID_MISSION);
+    expect(received.length).toBe(count + 1);
+    expect(last().now.getTime()).toBe(MID_MISSION.getTime());
+    expect(last().phase).toBe(MissionPhase.ACTIVE);
+    expect(last().isTracking).toBe(true);
+    expect(store.getSnapshot()).toBe(last());
+    unsubscribe();
+  });
+
+  it('holds the mission time while paused', () => {
+    const store = createStore();
+    const { unsubscribe, last } = record(store);
+    clock.seek(MID_MISSION);
+    clock.pause();
+    vi.advanceTimersByTime(5 * TICK_MS);
+    expect(last().now.getTime()).toBe(MID_MISSION.getTime());
+
+    clock.play();
+    vi.advanceTimersByTime(2 * TICK_MS);
+    expect(last().now.getTime()).toBe(MID_MISSION.getTime() + 2 * TICK_MS);
+    unsubscribe();
+  });
+
+  it('follows rate changes', () => {
+    const store = createStore();
+    const { unsubscribe, last } = record(store);
+    clock.seek(MID_MISSION);
+    clock.setRate(3600);
+    vi.advanceTimersByTime(TICK_MS);
+    expect(last().now.getTime()).toBe(MID_MISSION.getTime() + 3600 * TICK_MS);
+    unsubscribe();
+  });
+
+  it('keeps ticking until the last subscriber leaves', () => {
+    const store = createStore();
+    const first = record(store);
+    const second = record(store);
+
+    first.unsubscribe();
+    const count = second.received.length;
+    vi.advanceTimersByTime(2 * TICK_MS);
+    expect(second.received.length).toBe(count + 2);
+
+    second.unsubscribe();
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  it('stops ticking, chatter and clock updates after the last unsubscribe', () => {
+    const store = createStore();
+    const { received, unsubscribe } = record(store);
+    unsubscribe();
+    const count = received.length;
+    vi.mocked(intel.generate).mockClear();
+
+    vi.advanceTimersByTime(30 * TICK_MS);
+    clock.seek(MID_MISSION);
+    clock.setRate(60);
+
+    expect(received.length).toBe(count);
+    expect(intel.generate).not.toHaveBeenCalled();
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  it('starts again for a new subscriber at the current mission time', () => {
+    const store = createStore();
+    record(store).unsubscribe();
+    clock.seek(MID_MISSION);
+
+    const { received, unsubscribe } = record(store);
+    expect(received[0].now.getTime()).toBe(MID_MISSION.getTime());
+    expect(received[0].phase).toBe(MissionPhase.ACTIVE);
+    unsubscribe();
+  });
+
+  it('cruises between stops and rests while parked at one', () => {
+    const store = createStore();
+    const { unsubscribe, last } = record(store);
+    const [, leg, next] = buildFlightPlan(YEAR);
+
+    clock.seek(new Date((leg.departAt + leg.arriveAt) / 2));
+    expect(last().santa.speed).toBeCloseTo(4.2, 1);
+    expect(last().santa.altitude).toBeGreaterThan(30000);
+
+    clock.seek(new Date((leg.arriveAt + next.departAt) / 2));
+    expect(last().santa.speed).toBe(0);
+    expect(last().santa.altitude).toBe(0);
+    unsubscribe();
+  });
+
+  it('derives the flight figures from mission time, not the wall clock', () => {
+    const store = createStore();
+    const { unsubscribe, last } = record(store);
+    const [, leg] = buildFlightPlan(YEAR);
+    clock.seek(new Date((leg.departAt + leg.arriveAt) / 2));
+    clock.pause();
+    const { speed, altitude } = last().santa;
+
+    vi.advanceTimersByTime(7 * TICK_MS);
+    expect(last().santa.speed).toBe(speed);
+    expect(last().santa.altitude).toBe(altitude);
+    unsubscribe();
+  });
+
+  it('skips a round of chatter when the intel service fails', async () => {
+    const log = createIntelLogStore();
+    const store = createTelemetryStore({ clock, intel, weather, log, tickMs: TICK_MS, chatterMs: 5000 });
+    const chatter = () => log.getEntries().filter(entry => entry.type === 'CHATTER');
+    vi.mocked(intel.generate).mockRejectedValueOnce(new Error('offline'));
+
+    const { unsubscribe } = record(store);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(chatter()).toHaveLength(0);
+
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(chatter().map(entry => entry.message)).toEqual(['ALL QUIET']);
+    unsubscribe();
+  });
+
+  it('delivers weather for the current station once the provider answers', async () => {
+    const store = createStore();
+    const { unsubscribe, last } = record(store);
+    clock.seek(MID_MISSION);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(weather.getConditions).toHaveBeenCalled();
+    expect(last().weather).not.toBeNull();
+    unsubscribe();
+  });
+});
@@ -0,0 +1,231 @@
+import { SantaState, MissionPhase } from '../types';
+import { getSantaLocation, NextStop, StationSchedule } from './trackingService';
+import { DeliveryStatus } from './deliveryModel';
+import { missionClock, MissionClock } from './missionClock';
+import { latLonToUnitVector } from './geo';
+import { intelService, IntelService } from './intelProvider';
+import { intelLog, IntelLogStore } from './intelLogStore';
+import { TrackingSnapshot, detectIntelEvents, createLogEntry } from './intelEngine';
+import { weatherProvider, WeatherProvider, WeatherConditions, WeatherSystem, formatWeatherReport, isSevereWeather } from './weatherProvider';
+
+// Headless mission state: ticks the tracking model off the mission clock, raises intel
+// events and chatter into the log, and publishes one snapshot that any number of views
+// can subscribe to. Runs only while something is subscribed.
+
+export interface MissionTelemetry {
+  now: Date;
+  santa: SantaState;
+  plannedRoute: [number, number][];
+  nextStop: NextStop | null;
+  stations: StationSchedule[]; // Every stop on the route with its times and status
+  delivery: DeliveryStatus;
+  weather: WeatherConditions | null; // At Santa's current station, once the provider has answered
+  weatherSystems: WeatherSystem[];   // For the globe's cloud layer
+  phase: MissionPhase;
+  launchAt: number;
+  returnAt: number;
+  // Derived
+  isTracking: boolean;      // Airborne: from launch until he lands back at the North Pole
+  deliveryProgress: number; // 0..1 of the manifest
+}
+
+export interface TelemetryOptions {
+  clock: MissionClock;
+  intel: IntelService;
+  log: IntelLogStore;
+  weather: WeatherProvider;
+  tickMs: number;    // Tracking update interval
+  chatterMs: number; // Intel chatter interval
+  weatherMs: number; // Weather refresh interval in mission time (a new station always refreshes)
+}
+
+export interface TelemetryStore {
+  getSnapshot: () => MissionTelemetry;
+  subscribe: (listener: (telemetry: MissionTelemetry) => void) => () => void;
+  refresh: () => void; // Recompute now (e.g. after the route changes)
+}
+
+const isAirborne = (phase: MissionPhase) => phase === MissionPhase.ACTIVE || phase === MissionPhase.RETURNING;
+
+export const CRUISE_ALTITUDE_FT = 35000;
+const CRUISE_MACH = 4.2;
+
+// Cruise figures while flying a leg, at rest while parked at a stop. The wobble follows
+// mission time, so a paused or replayed clock shows the same numbers.
+const getFlightProfile = (now: Date, flying: boolean): { altitude: number, speed: number } => {
+  if (!flying) return { altitude: 0, speed: 0 };
+  const t = now.getTime();
+  return {
+    altitude: CRUISE_ALTITUDE_FT + Math.sin(t / 2000) * 150,
+    speed: CRUISE_MACH + Math.sin(t / 1300) * 0.025
+  };
+};
+
+export const createTelemetryStore = (options: Partial<TelemetryOptions> = {}): TelemetryStore => {
+  const { clock = missionClock, intel = intelService, log = intelLog, weather = weatherProvider, tickMs = 1000, chatterMs = 6000, weatherMs = 10 * 60 * 1000 } = options;
+  const listeners = new Set<(telemetry: MissionTelemetry) => void>();
+  let prevSnapshot: TrackingSnapshot | null = null;
+  let station: [number, number] = [90, 0]; // Coordinates of the station Santa is at or heading for
+  let conditions: WeatherConditions | null = null;
+  let systems: WeatherSystem[] = [];
+
+  const compute = (now: Date): MissionTelemetry => {
+    const trackingData = getSantaLocation(now);
+    const airborne = isAirborne(trackingData.phase);
+    const { altitude, speed } = getFlightProfile(now, airborne && trackingData.flight.inTransit);
+
+    // Intel events come from comparing against the previous computation
+    const snapshot: TrackingSnapshot = {
+      at: now.getTime(),
+      phase: trackingData.phase,
+      legIndex: trackingData.flight.legIndex,
+      inTransit: trackingData.flight.inTransit,
+      locationName: trackingData.location.name,
+      region: trackingData.location.region,
+      coordinates: trackingData.flight.coordinates,
+      delivered: trackingData.delivery.delivered
+    };
+    const events = detectIntelEvents(prevSnapshot, snapshot);
+    prevSnapshot = snapshot;
+    station = trackingData.location.coordinates;
+    if (events.length > 0) {
+      log.append(events.map(e => createLogEntry(e.message, e.priority, e.type, e.region, e.at, e.station)).reverse());
+    }
+
+    return {
+      now,
+      santa: {
+        locationName: trackingData.location.name,
+        currentRegion: trackingData.location.region,
+        nextStop: trackingData.nextStop ? trackingData.nextStop.station.name : "MISSION COMPLETE",
+        localTime: trackingData.localTime,
+        coordinates: trackingData.flight.coordinates,
+        position: latLonToUnitVector(trackingData.flight.coordinates[0], trackingData.flight.coordinates[1]),
+        rotation: [0, trackingData.flight.heading * (Math.PI / 180), 0],
+        visitedLocations: trackingData.visitedLocations,
+        altitude,
+        speed,
+        giftsDelivered: trackingData.delivery.delivered
+      },
+      plannedRoute: trackingData.plannedRoute,
+      nextStop: trackingData.nextStop,
+      stations: trackingData.stations,
+      delivery: trackingData.delivery,
+      weather: conditions,
+      weatherSystems: systems,
+      phase: trackingData.phase,
+      launchAt: trackingData.launchAt,
+      returnAt: trackingData.returnAt,
+      isTracking: airborne,
+      deliveryProgress: trackingData.delivery.target > 0 ? trackingData.delivery.delivered / trackingData.delivery.target : 0
+    };
+  };
+
+  let current = compute(clock.now());
+
+  // --- Intel chatter ---
+  // Messages come from the intel service (Gemini when configured, templates otherwise);
+  // on the ground (pre-launch / debrief) it produces North Pole status chatter.
+  // This is background chatter, logged at LOW under the tracking events.
+  let chatterTimer: ReturnType<typeof setInterval> | null = null;
+  let chatterGeneration = 0;
+
+  const addChatter = () => {
+    const generation = chatterGeneration;
+    intel.generate(current.santa)
+      .then(({ message }) => message, () => null) // A failed generation just skips this round of chatter
+      .then(message => {
+        if (message === null || generation !== chatterGeneration) return; // Location changed or stopped meanwhile
+        log.append([createLogEntry(message, 'LOW', 'CHATTER', current.santa.currentRegion, clock.now().getTime(), current.santa.locationName)]);
+      });
+  };
+
+  // Immediate log on start or location change, then every chatterMs
+  const restartChatter = () => {
+    chatterGeneration++;
+    if (chatterTimer) clearInterval(chatterTimer);
+    addChatter();
+    chatterTimer = setInterval(addChatter, chatterMs);
+  };
+
+  // --- Weather ---
+  // Conditions at the current station and the systems for the globe, fetched from the
+  // weather provider. A new station also gets a WX report in the log.
+  let weatherGeneration = 0;
+  let weatherFetchedAt = -Infinity;
+
+  const refreshWeather = (report: boolean) => {
+    const generation = ++weatherGeneration;
+    const at = clock.now();
+    const { locationName, currentRegion } = current.santa;
+    weatherFetchedAt = at.getTime();
+    Promise.all([weather.getConditions(station, at), weather.getSystems(at)])
+      .then(([nextConditions, nextSystems]) => {
+        if (generation !== weatherGeneration) return; // Superseded or stopped meanwhile
+        conditions = nextConditions;
+        systems = nextSystems;
+        current = { ...current, weather: conditions, weatherSystems: systems };
+        listeners.forEach(listener => listener(current));
+        if (report) {
+          log.append([createLogEntry(formatWeatherReport(locationName, conditions), isSevereWeather(conditions) ? 'MED' : 'LOW', 'WEATHER', currentRegion, at.getTime(), locationName)]);
+        }
+      })
+      .catch(() => {}); // Keep the last conditions (WX --- until there are some); the next refresh retries
+  };
+
+  const update = () => {
+    const prev = current;
+    current = compute(clock.now());
+    listeners.forEach(listener => listener(current));
+
+    if (prev.santa.locationName !== current.santa.locationName) {
+      refreshWeather(true);
+    } else if (Math.abs(current.now.getTime() - weatherFetchedAt) >= weatherMs) {
+      refreshWeather(false);
+    }
+
+    if (prev.santa.locationName !== current.santa.locationName ||
+        prev.santa.currentRegion !== current.santa.currentRegion ||
+        prev.phase !== current.phase) {
+      restartChatter();
+    }
+  };
+
+  // --- Lifecycle: ticking only while subscribed ---
+  let tickTimer: ReturnType<typeof setInterval> | null = null;
+  let unsubscribeClock: (() => void) | null = null;
+
+  const start = () => {
+    current = compute(clock.now());
+    listeners.forEach(listener => listener(current));
+    tickTimer = setInterval(update, tickMs);
+    unsubscribeClock = clock.subscribe(update); // Seeks and rate changes apply immediately
+    restartChatter();
+    refreshWeather(true);
+  };
+
+  const stop = () => {
+    if (tickTimer) clearInterval(tickTimer);
+    if (chatterTimer) clearInterval(chatterTimer);
+    if (unsubscribeClock) unsubscribeClock();
+    tickTimer = chatterTimer = unsubscribeClock = null;
+    chatterGeneration++;
+    weatherGeneration++;
+  };
+
+  return {
+    getSnapshot: () => current,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      if (listeners.size === 1) start();
+      return () => {
+        listeners.delete(listener);
+        if (listeners.size === 0) stop();
+      };
+    },
+    refresh: update
+  };
+};
+
+// Shared telemetry for every view in the app
+export const missionTelemetry = createTelemetryStore();
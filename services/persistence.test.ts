@@ -0,0 +1,119 @@
+import { describe, it, expect } from 'vitest';
+import { migrateSnapshot, createPersistence, StorageBackend, PersistedState, SCHEMA_VERSION, DEFAULT_OVERLAYS, DEFAULT_SAVED_CLOCK } from './persistence';
+import { ViewMode } from '../types';
+
+// Backend keeping the snapshot in memory
+const memoryBackend = (): StorageBackend => {
+  let value: unknown = null;
+  return {
+    name: 'MEMORY',
+    read: async () => value,
+    write: async (next) => { value = JSON.parse(JSON.stringify(next)); },
+    clear: async () => { value = null; }
+  };
+};
+
+const preferences = {
+  viewMode: ViewMode.THERMAL,
+  globeRotation: { mode: 'SIDEREAL' as const },
+  overlays: { ...DEFAULT_OVERLAYS, weather: false },
+  sledCam: { side: 'RIGHT' as const, collapsed: true }
+};
+
+describe('migrateSnapshot', () => {
+  it('upgrades a v4 snapshot to the current schema', () => {
+    const { weather, ...overlays } = DEFAULT_OVERLAYS;
+    const migrated = migrateSnapshot({
+      version: 4,
+      savedAt: 1,
+      santa: { locationName: 'TOKYO' },
+      logs: [],
+      preferences: { ...preferences, overlays }
+    })!;
+    expect(migrated.version).toBe(SCHEMA_VERSION);
+    expect(migrated.preferences.overlays.weather).toBe(DEFAULT_OVERLAYS.weather);
+    expect(migrated.clock).toEqual(DEFAULT_SAVED_CLOCK);
+    expect('santa' in migrated).toBe(false);
+  });
+
+  it('falls back to a live clock when the saved one is malformed', () => {
+    const migrated = migrateSnapshot({
+      version: SCHEMA_VERSION,
+      savedAt: 1,
+      clock: { mode: 'WARP', rate: -5, paused: 'yes', at: 'noon' },
+      logs: [],
+      preferences
+    })!;
+    expect(migrated.clock).toEqual(DEFAULT_SAVED_CLOCK);
+  });
+
+  it('drops malformed log entries and defaults malformed preferences', () => {
+    const entry = { id: '1', timestamp: '00:00:00', at: 0, message: 'LAUNCH', priority: 'HIGH' };
+    const migrated = migrateSnapshot({
+      version: SCHEMA_VERSION,
+      savedAt: 1,
+      clock: DEFAULT_SAVED_CLOCK,
+      logs: [entry, { ...entry, priority: 'URGENT' }, 'LAUNCH', { ...entry, at: '00:00' }],
+      preferences: { viewMode: 'XRAY', globeRotation: { mode: 'SPIN' }, overlays: { borders: 'yes', graticule: true }, sledCam: null }
+    })!;
+    expect(migrated.logs).toEqual([entry]);
+    expect(migrated.preferences).toEqual({
+      viewMode: ViewMode.OPTICAL,
+      globeRotation: { mode: 'SIDEREAL' },
+      overlays: { ...DEFAULT_OVERLAYS, graticule: true },
+      sledCam: { side: 'LEFT', collapsed: false }
+    });
+  });
+
+  it('rejects snapshots from a newer build', () => {
+    expect(migrateSnapshot({ version: SCHEMA_VERSION + 1, logs: [], preferences })).toBeNull();
+  });
+});
+
+// Backend whose reads and writes fail until it is fixed
+const brokenBackend = (name: string) => {
+  const backend = memoryBackend();
+  let broken = true;
+  return {
+    fix: () => { broken = false; },
+    backend: {
+      ...backend,
+      name,
+      read: () => broken ? Promise.reject(new Error('read failed')) : backend.read(),
+      write: (value: PersistedState) => broken ? Promise.reject(new Error('write failed')) : backend.write(value)
+    }
+  };
+};
+
+describe('createPersistence', () => {
+  it('switches to the fallback backend when the primary fails', async () => {
+    const persistence = createPersistence(brokenBackend('PRIMARY').backend, memoryBackend());
+    await persistence.save({ clock: DEFAULT_SAVED_CLOCK, logs: [], preferences });
+    expect(persistence.backend()).toBe('MEMORY');
+    expect(persistence.error()).toBeNull();
+  });
+
+  it('reports load and save failures until a save succeeds', async () => {
+    const { backend, fix } = brokenBackend('ONLY');
+    const persistence = createPersistence(backend, null);
+    expect(await persistence.load()).toBeNull();
+    expect(persistence.error()).toBe('LOAD FAILED');
+
+    await persistence.save({ clock: DEFAULT_SAVED_CLOCK, logs: [], preferences });
+    expect(persistence.error()).toBe('SAVE FAILED');
+
+    fix();
+    await persistence.save({ clock: DEFAULT_SAVED_CLOCK, logs: [], preferences });
+    expect(persistence.error()).toBeNull();
+  });
+
+  it('round-trips a replay clock', async () => {
+    const persistence = createPersistence(memoryBackend(), null);
+    const clock = { mode: 'SIMULATED' as const, rate: 600, paused: true, at: Date.UTC(2025, 11, 25, 6) };
+    await persistence.save({ clock, logs: [], preferences });
+
+    const loaded = (await persistence.load()) as PersistedState;
+    expect(loaded.clock).toEqual(clock);
+    expect(loaded.preferences).toEqual(preferences);
+  });
+});
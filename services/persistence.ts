@@ -0,0 +1,265 @@
+import { IntelLogEntry, ViewMode, GlobeRotation, GlobeOverlays, SledCamDock } from '../types';
+import { ClockMode } from './missionClock';
+
+// Snapshots the tracker to the browser so a reload mid-mission picks up where it left off.
+// IndexedDB is preferred; localStorage is used when IndexedDB is missing or fails to open
+// (private browsing, locked-down embeds).
+
+export const SCHEMA_VERSION = 7;
+
+export interface UserPreferences {
+  viewMode: ViewMode;
+  globeRotation: GlobeRotation;
+  overlays: GlobeOverlays;
+  sledCam: SledCamDock;
+}
+
+export const DEFAULT_GLOBE_ROTATION: GlobeRotation = { mode: 'SIDEREAL' };
+
+export const DEFAULT_OVERLAYS: GlobeOverlays = {
+  graticule: false,
+  borders: false,
+  timezones: true,
+  dateLine: true,
+  midnight: true,
+  weather: true
+};
+
+export const DEFAULT_SLED_CAM: SledCamDock = { side: 'LEFT', collapsed: false };
+
+// Mission clock as it was when saved, so a replay resumes at the same instant and speed
+export interface SavedClock {
+  mode: ClockMode;
+  rate: number;
+  paused: boolean;
+  at: number; // Simulated epoch ms when saved (unused when LIVE)
+}
+
+export const DEFAULT_SAVED_CLOCK: SavedClock = { mode: 'LIVE', rate: 1, paused: false, at: 0 };
+
+export interface PersistedState {
+  version: number;
+  savedAt: number; // Real epoch ms
+  clock: SavedClock;
+  logs: IntelLogEntry[]; // Newest first
+  preferences: UserPreferences;
+}
+
+// Untyped snapshot as read back from storage, before it is validated
+type RawSnapshot = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is RawSnapshot =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const preferencesOf = (data: RawSnapshot): RawSnapshot => isRecord(data.preferences) ? data.preferences : {};
+
+// Upgrades a snapshot saved at version N to N + 1. Add an entry here whenever the
+// shape of PersistedState changes and bump SCHEMA_VERSION.
+const MIGRATIONS: Record<number, (data: RawSnapshot) => RawSnapshot> = {
+  // v2: globe rotation preference
+  1: (data) => ({ ...data, preferences: { ...preferencesOf(data), globeRotation: DEFAULT_GLOBE_ROTATION } }),
+  // v3: globe overlay toggles
+  2: (data) => ({ ...data, preferences: { ...preferencesOf(data), overlays: DEFAULT_OVERLAYS } }),
+  // v4: sled-cam panel dock
+  3: (data) => ({ ...data, preferences: { ...preferencesOf(data), sledCam: DEFAULT_SLED_CAM } }),
+  // v5: weather overlay toggle
+  4: (data) => {
+    const preferences = preferencesOf(data);
+    const overlays = isRecord(preferences.overlays) ? preferences.overlays : {};
+    return { ...data, preferences: { ...preferences, overlays: { ...overlays, weather: DEFAULT_OVERLAYS.weather } } };
+  },
+  // v6: Santa's telemetry is recomputed from the mission clock, so it's no longer saved
+  5: ({ santa, ...data }) => data,
+  // v7: mission clock
+  6: (data) => ({ ...data, clock: DEFAULT_SAVED_CLOCK })
+};
+
+// --- Validation of a migrated snapshot: malformed preferences fall back to their defaults ---
+
+const LOG_PRIORITIES: unknown[] = ['LOW', 'MED', 'HIGH', 'CRITICAL'];
+const isOptionalString = (value: unknown): boolean => value === undefined || typeof value === 'string';
+
+const isLogEntry = (value: unknown): value is IntelLogEntry =>
+  isRecord(value) && typeof value.id === 'string' && typeof value.timestamp === 'string' &&
+  typeof value.at === 'number' && typeof value.message === 'string' && LOG_PRIORITIES.includes(value.priority) &&
+  isOptionalString(value.type) && isOptionalString(value.region) && isOptionalString(value.station);
+
+const isViewMode = (value: unknown): value is ViewMode => (Object.values(ViewMode) as unknown[]).includes(value);
+
+const readRotation = (value: unknown): GlobeRotation => {
+  if (isRecord(value) && value.mode === 'SPIN' && typeof value.degPerSecond === 'number') {
+    return { mode: 'SPIN', degPerSecond: value.degPerSecond };
+  }
+  return DEFAULT_GLOBE_ROTATION;
+};
+
+// Keep known toggles that are booleans, default the rest
+const readOverlays = (value: unknown): GlobeOverlays => {
+  const saved = isRecord(value) ? value : {};
+  const pick = (key: keyof GlobeOverlays) => {
+    const toggle = saved[key];
+    return typeof toggle === 'boolean' ? toggle : DEFAULT_OVERLAYS[key];
+  };
+  return {
+    graticule: pick('graticule'),
+    borders: pick('borders'),
+    timezones: pick('timezones'),
+    dateLine: pick('dateLine'),
+    midnight: pick('midnight'),
+    weather: pick('weather')
+  };
+};
+
+const readSledCam = (value: unknown): SledCamDock =>
+  isRecord(value) && (value.side === 'LEFT' || value.side === 'RIGHT') && typeof value.collapsed === 'boolean'
+    ? { side: value.side, collapsed: value.collapsed }
+    : DEFAULT_SLED_CAM;
+
+const readClock = (value: unknown): SavedClock =>
+  isRecord(value) && (value.mode === 'LIVE' || value.mode === 'SIMULATED') &&
+  typeof value.rate === 'number' && value.rate >= 0 && typeof value.paused === 'boolean' &&
+  typeof value.at === 'number' && Number.isFinite(value.at)
+    ? { mode: value.mode, rate: value.rate, paused: value.paused, at: value.at }
+    : DEFAULT_SAVED_CLOCK;
+
+export const migrateSnapshot = (data: unknown): PersistedState | null => {
+  if (!isRecord(data)) return null;
+  let snapshot = data;
+  let version = typeof snapshot.version === 'number' ? snapshot.version : 0;
+
+  // Snapshots from a newer build can't be read safely
+  if (version > SCHEMA_VERSION) return null;
+
+  while (version < SCHEMA_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) return null;
+    snapshot = { ...migrate(snapshot), version: version + 1 };
+    version++;
+  }
+
+  const { logs, preferences } = snapshot;
+  if (!Array.isArray(logs) || !isRecord(preferences)) return null;
+  return {
+    version,
+    savedAt: typeof snapshot.savedAt === 'number' ? snapshot.savedAt : 0,
+    clock: readClock(snapshot.clock),
+    logs: logs.filter(isLogEntry),
+    preferences: {
+      viewMode: isViewMode(preferences.viewMode) ? preferences.viewMode : ViewMode.OPTICAL,
+      globeRotation: readRotation(preferences.globeRotation),
+      overlays: readOverlays(preferences.overlays),
+      sledCam: readSledCam(preferences.sledCam)
+    }
+  };
+};
+
+// --- Storage backends ---
+
+export interface StorageBackend {
+  name: string;
+  read: () => Promise<unknown>;
+  write: (value: PersistedState) => Promise<void>;
+  clear: () => Promise<void>;
+}
+
+const DB_NAME = 'santa-tracker';
+const STORE_NAME = 'snapshots';
+const SNAPSHOT_KEY = 'mission';
+const LOCAL_STORAGE_KEY = 'santa-tracker:mission';
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+export const createIndexedDbBackend = (): StorageBackend => {
+  let db: Promise<IDBDatabase> | null = null;
+  const open = () => {
+    if (!db) {
+      db = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, 1);
+        request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+        request.onblocked = () => reject(new Error('IndexedDB open blocked'));
+      });
+    }
+    return db;
+  };
+  const store = async (mode: IDBTransactionMode) => (await open()).transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+
+  return {
+    name: 'INDEXEDDB',
+    read: async () => promisify((await store('readonly')).get(SNAPSHOT_KEY)),
+    write: async (value) => { await promisify((await store('readwrite')).put(value, SNAPSHOT_KEY)); },
+    clear: async () => { await promisify((await store('readwrite')).delete(SNAPSHOT_KEY)); }
+  };
+};
+
+export const createLocalStorageBackend = (): StorageBackend => ({
+  name: 'LOCALSTORAGE',
+  read: async () => {
+    const raw = localStorage.getItem(LOCAL_STORAGE_KEY);
+    return raw ? JSON.parse(raw) : null;
+  },
+  write: async (value) => localStorage.setItem(LOCAL_STORAGE_KEY, JSON.stringify(value)),
+  clear: async () => localStorage.removeItem(LOCAL_STORAGE_KEY)
+});
+
+// --- Persistence service ---
+
+export interface Persistence {
+  backend: () => string; // Name of the backend in use, for diagnostics
+  error: () => string | null; // Last load or save failure, for diagnostics (cleared by the next save)
+  load: () => Promise<PersistedState | null>;
+  save: (state: Omit<PersistedState, 'version' | 'savedAt'>) => Promise<void>;
+  clear: () => Promise<void>;
+}
+
+// Tries the primary backend and permanently switches to the fallback on its first failure
+export const createPersistence = (
+  primary: StorageBackend | null,
+  fallback: StorageBackend | null
+): Persistence => {
+  let active = primary || fallback;
+  let error: string | null = null;
+
+  const run = async <T>(action: (backend: StorageBackend) => Promise<T>): Promise<T | null> => {
+    if (!active) return null;
+    try {
+      return await action(active);
+    } catch (err) {
+      if (active === fallback || !fallback) throw err;
+      active = fallback; // Shows up as the backend name in diagnostics
+      return action(active);
+    }
+  };
+
+  return {
+    backend: () => active ? active.name : 'NONE',
+    error: () => error,
+    load: async () => {
+      try {
+        return migrateSnapshot(await run(backend => backend.read()));
+      } catch {
+        error = 'LOAD FAILED'; // Starts fresh
+        return null;
+      }
+    },
+    save: async (state) => {
+      try {
+        await run(backend => backend.write({ ...state, version: SCHEMA_VERSION, savedAt: Date.now() }));
+        error = null;
+      } catch {
+        error = 'SAVE FAILED';
+      }
+    },
+    clear: async () => { await run(backend => backend.clear()); }
+  };
+};
+
+// App-wide persistence: IndexedDB when the browser has it, localStorage otherwise
+export const persistence = createPersistence(
+  typeof indexedDB !== 'undefined' ? createIndexedDbBackend() : null,
+  typeof localStorage !== 'undefined' ? createLocalStorageBackend() : null
+);
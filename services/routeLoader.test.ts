@@ -0,0 +1,62 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { parseRouteDefinition, RouteValidationError } from './routeLoader';
+
+const station = (overrides: Record<string, unknown> = {}) => ({
+  name: 'SAO PAULO',
+  region: 'S. AMERICA',
+  zone: 'America/Sao_Paulo',
+  coordinates: [-23.55, -46.63],
+  ...overrides
+});
+
+const issuesOf = (data: unknown): string[] => {
+  try {
+    parseRouteDefinition(data);
+  } catch (err) {
+    if (err instanceof RouteValidationError) return err.issues;
+    throw err;
+  }
+  return [];
+};
+
+describe('parseRouteDefinition', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('reads the JSON and GeoJSON forms alike', () => {
+    const fromJson = parseRouteDefinition([station()]);
+    const fromGeoJson = parseRouteDefinition({
+      type: 'FeatureCollection',
+      features: [{ type: 'Feature', geometry: { type: 'Point', coordinates: [-46.63, -23.55] }, properties: { name: 'Sao Paulo', region: 'S. AMERICA', zone: 'America/Sao_Paulo' } }]
+    });
+    expect(fromGeoJson).toEqual(fromJson);
+    expect(fromJson[0].coordinates).toEqual([-23.55, -46.63]);
+  });
+
+  it('lists every issue in the route', () => {
+    const issues = issuesOf([
+      station(),
+      station({ coordinates: [123, 0] }),
+      station({ name: 'ATLANTIS', zone: 'Ocean/Atlantis', region: 'SEAFLOOR' })
+    ]);
+    expect(issues).toHaveLength(4);
+    expect(issues[0]).toMatch(/duplicate name/);
+    expect(issues[1]).toMatch(/latitude 123/);
+    expect(issues[2]).toMatch(/unknown region/);
+    expect(issues[3]).toMatch(/unknown time zone "Ocean\/Atlantis"/);
+  });
+
+  it('resolves the fallback offset for the mission being replayed, not the wall-clock year', () => {
+    // Brazil dropped daylight time in 2019: UTC-2 at Christmas 2018, UTC-3 since
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date(Date.UTC(2030, 5, 1)));
+    expect(parseRouteDefinition([station()], new Date(Date.UTC(2018, 11, 25)))[0].offset).toBe(-2);
+    expect(parseRouteDefinition([station()], new Date(Date.UTC(2019, 0, 2)))[0].offset).toBe(-2);
+    expect(parseRouteDefinition([station()], new Date(Date.UTC(2025, 11, 25)))[0].offset).toBe(-3);
+  });
+
+  it('keeps an explicit offset', () => {
+    expect(parseRouteDefinition([station({ offset: -2.5 })])[0].offset).toBe(-2.5);
+  });
+});
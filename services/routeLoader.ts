@@ -0,0 +1,139 @@
+import { TrackingLocation } from '../types';
+import { KNOWN_REGIONS } from './trackingService';
+import { isValidTimeZone, getUtcOffsetMinutes } from './timezone';
+import { missionClock, getReplayWindow } from './missionClock';
+
+// Loads a tracking route from a JSON station list or a GeoJSON FeatureCollection of Points.
+//
+// JSON:    [{ "name": "OSLO", "region": "EUROPE", "zone": "Europe/Oslo", "coordinates": [59.91, 10.75] }]
+// GeoJSON: { "type": "FeatureCollection", "features": [{ "type": "Feature",
+//            "geometry": { "type": "Point", "coordinates": [10.75, 59.91] },
+//            "properties": { "name": "OSLO", "region": "EUROPE", "zone": "Europe/Oslo" } }] }
+//
+// Note GeoJSON positions are [lon, lat]; the plain JSON form uses [lat, lon] like TRACKING_STATIONS.
+// Each station needs a `zone` (or `timeZone`) IANA id, a numeric `offset`, or both.
+// An optional `population` sets the gifts delivered there (otherwise a per-region weight is used).
+
+export class RouteValidationError extends Error {
+  issues: string[];
+
+  constructor(issues: string[]) {
+    super(`Invalid route definition:\n  - ${issues.join('\n  - ')}`);
+    this.name = 'RouteValidationError';
+    this.issues = issues;
+  }
+}
+
+interface RawStation {
+  name?: unknown;
+  region?: unknown;
+  zone?: unknown;
+  timeZone?: unknown;
+  offset?: unknown;
+  population?: unknown;
+  lat?: unknown;
+  lon?: unknown;
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+// Flatten either input format into raw station records with explicit lat/lon
+const toRawStations = (data: unknown): RawStation[] => {
+  if (Array.isArray(data)) {
+    return data.map(entry => {
+      const coords: unknown[] = isObject(entry) && Array.isArray(entry.coordinates) ? entry.coordinates : [];
+      return { ...(isObject(entry) ? entry : {}), lat: coords[0], lon: coords[1] };
+    });
+  }
+
+  if (isObject(data) && data.type === 'FeatureCollection' && Array.isArray(data.features)) {
+    return data.features.map((feature: unknown): RawStation => {
+      if (!isObject(feature) || !isObject(feature.geometry) || feature.geometry.type !== 'Point') {
+        return { name: isObject(feature) && isObject(feature.properties) ? feature.properties.name : undefined, lat: NaN, lon: NaN };
+      }
+      const coords: unknown[] = Array.isArray(feature.geometry.coordinates) ? feature.geometry.coordinates : [];
+      return { ...(isObject(feature.properties) ? feature.properties : {}), lat: coords[1], lon: coords[0] };
+    });
+  }
+
+  throw new RouteValidationError(['expected an array of stations or a GeoJSON FeatureCollection']);
+};
+
+// `now` picks the mission whose Christmas Day resolves offsets for zone-only stations
+export const parseRouteDefinition = (data: unknown, now: Date = missionClock.now()): TrackingLocation[] => {
+  const raw = toRawStations(data);
+  const missionYear = getReplayWindow(now).start.getUTCFullYear();
+  const issues: string[] = [];
+  const seen = new Set<string>();
+  const stations: TrackingLocation[] = [];
+
+  if (raw.length === 0) {
+    throw new RouteValidationError(['route contains no stations']);
+  }
+
+  raw.forEach((entry, i) => {
+    const label = typeof entry.name === 'string' && entry.name.trim() ? `station ${i} (${entry.name})` : `station ${i}`;
+    const before = issues.length;
+
+    const name = typeof entry.name === 'string' ? entry.name.trim().toUpperCase() : '';
+    if (!name) {
+      issues.push(`${label}: missing name`);
+    } else if (seen.has(name)) {
+      issues.push(`${label}: duplicate name`);
+    }
+
+    const lat = isFiniteNumber(entry.lat) && entry.lat >= -90 && entry.lat <= 90 ? entry.lat : null;
+    if (lat === null) {
+      issues.push(`${label}: latitude ${String(entry.lat)} is not a number in [-90, 90]`);
+    }
+    const lon = isFiniteNumber(entry.lon) && entry.lon >= -180 && entry.lon <= 180 ? entry.lon : null;
+    if (lon === null) {
+      issues.push(`${label}: longitude ${String(entry.lon)} is not a number in [-180, 180]`);
+    }
+
+    const region = typeof entry.region === 'string' && KNOWN_REGIONS.includes(entry.region) ? entry.region : null;
+    if (region === null) {
+      issues.push(`${label}: unknown region ${JSON.stringify(entry.region)} (expected one of ${KNOWN_REGIONS.join(', ')})`);
+    }
+
+    const zone = entry.zone ?? entry.timeZone;
+    const timeZone = typeof zone === 'string' && isValidTimeZone(zone) ? zone : undefined;
+    if (zone !== undefined && timeZone === undefined) {
+      issues.push(`${label}: unknown time zone ${JSON.stringify(zone)}`);
+    }
+    const offset = isFiniteNumber(entry.offset) && entry.offset >= -12 && entry.offset <= 14 ? entry.offset : undefined;
+    if (entry.offset !== undefined && offset === undefined) {
+      issues.push(`${label}: offset ${String(entry.offset)} is not a number in [-12, 14]`);
+    }
+    const population = isFiniteNumber(entry.population) && entry.population >= 0 ? entry.population : undefined;
+    if (entry.population !== undefined && population === undefined) {
+      issues.push(`${label}: population ${String(entry.population)} is not a non-negative number`);
+    }
+    if (zone === undefined && entry.offset === undefined) {
+      issues.push(`${label}: needs a zone or an offset`);
+    }
+
+    if (issues.length > before || !name || lat === null || lon === null || region === null) return;
+    seen.add(name);
+
+    const station: TrackingLocation = { name, offset: 0, timeZone, region, coordinates: [lat, lon], population };
+    // Keep a numeric fallback: the given offset, or the zone's offset on Christmas Day
+    station.offset = offset ?? getUtcOffsetMinutes(station, new Date(Date.UTC(missionYear, 11, 25, 12))) / 60;
+    stations.push(station);
+  });
+
+  if (issues.length > 0) {
+    throw new RouteValidationError(issues);
+  }
+  return stations;
+};
+
+export const loadRoute = async (url: string, now: Date = missionClock.now()): Promise<TrackingLocation[]> => {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Route file ${url} could not be loaded (HTTP ${response.status})`);
+  }
+  return parseRouteDefinition(await response.json(), now);
+};
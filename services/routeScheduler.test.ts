@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import { buildRouteSchedule } from './routeScheduler';
+import { TRACKING_STATIONS, buildFlightPlan, getFlightState } from './trackingService';
+import { getMissionWindow } from './missionClock';
+import { christmasEndsAt } from './timezone';
+import { normalizeLon } from './geo';
+
+const YEAR = 2025;
+const STEP_MS = 60 * 1000;
+const { start, end } = getMissionWindow(YEAR);
+
+// Every station the sleigh holds over, in order, stepping the whole window a minute at a time
+const holdingSequence = (): string[] => {
+  const plan = buildFlightPlan(YEAR);
+  const sequence: string[] = [];
+  for (let t = start.getTime(); t <= end.getTime(); t += STEP_MS) {
+    const flight = getFlightState(new Date(t), plan);
+    if (!flight.leg || flight.inTransit || flight.leg.to.name === 'NORTH POLE') continue;
+    const name = flight.leg.to.name;
+    if (sequence[sequence.length - 1] !== name) sequence.push(name);
+  }
+  return sequence;
+};
+
+const byName = (name: string) => TRACKING_STATIONS.find(station => station.name === name)!;
+const at = (day: number, hours: number, minutes: number = 0) => Date.UTC(YEAR, 11, day, hours, minutes);
+
+describe('buildRouteSchedule', () => {
+  const schedule = buildRouteSchedule(TRACKING_STATIONS, YEAR, start.getTime());
+  const order = schedule.map(stop => stop.station.name);
+
+  it('schedules every station exactly once', () => {
+    expect(order).toHaveLength(TRACKING_STATIONS.length);
+    expect(new Set(order).size).toBe(TRACKING_STATIONS.length);
+  });
+
+  it('follows midnight westward', () => {
+    for (let i = 1; i < schedule.length; i++) {
+      expect(schedule[i].deadline).toBeGreaterThanOrEqual(schedule[i - 1].deadline);
+      expect(christmasEndsAt(schedule[i].station, YEAR)).toBeGreaterThanOrEqual(christmasEndsAt(schedule[i - 1].station, YEAR));
+    }
+    expect(order[0]).toBe('KIRITIMATI');
+    expect(order[order.length - 1]).toBe('MIDWAY');
+  });
+
+  it('resolves half-hour zones to their own slot', () => {
+    const stop = (name: string) => schedule.find(s => s.station.name === name)!;
+    expect(stop('TEHRAN').offsetMinutes).toBe(210);
+    expect(stop('TEHRAN').deadline).toBe(at(25, 20, 30));
+    expect(stop('TEHRAN').subCount).toBe(1);
+    expect(stop('NEW DELHI').offsetMinutes).toBe(330);
+    expect(stop('MUMBAI').deadline).toBe(at(25, 18, 30));
+
+    // India sits between Dhaka (+6) and Dubai (+4), Tehran between Dubai and Moscow (+3)
+    expect(order.indexOf('DHAKA')).toBeLessThan(order.indexOf('NEW DELHI'));
+    expect(order.indexOf('MUMBAI')).toBeLessThan(order.indexOf('DUBAI'));
+    expect(order.indexOf('DUBAI')).toBeLessThan(order.indexOf('TEHRAN'));
+    expect(order.indexOf('TEHRAN')).toBeLessThan(order.indexOf('MOSCOW'));
+  });
+
+  it('splits shared offsets into sub-stops ordered east to west', () => {
+    const groups = [['NEW DELHI', 'MUMBAI'], ['MOSCOW', 'NAIROBI'], ['JAKARTA', 'BANGKOK']];
+    groups.forEach(([east, west]) => {
+      const first = schedule.find(s => s.station.name === east)!;
+      const second = schedule.find(s => s.station.name === west)!;
+      expect(order.indexOf(east) + 1).toBe(order.indexOf(west));
+      expect(first.subCount).toBe(2);
+      expect([first.subIndex, second.subIndex]).toEqual([0, 1]);
+      expect(first.deadline).toBeLessThan(second.deadline);
+      expect(second.deadline).toBe(christmasEndsAt(byName(west), YEAR));
+      expect(normalizeLon(byName(east).coordinates[1] - byName(west).coordinates[1])).toBeGreaterThan(0);
+    });
+  });
+});
+
+describe('buildFlightPlan', () => {
+  const plan = buildFlightPlan(YEAR);
+
+  it('launches from the North Pole at the start of the mission window', () => {
+    expect(plan[0].from.name).toBe('NORTH POLE');
+    expect(plan[0].departAt).toBe(start.getTime());
+    expect(plan[0].departAt).toBe(at(24, 10));
+  });
+
+  it('holds over every station once, east to west, across the full window', () => {
+    const sequence = holdingSequence();
+    expect(sequence).toEqual(buildRouteSchedule(TRACKING_STATIONS, YEAR, start.getTime()).map(stop => stop.station.name));
+    expect(new Set(sequence).size).toBe(TRACKING_STATIONS.length);
+  });
+
+  it('leaves every station before Christmas ends there', () => {
+    plan.slice(1).forEach(leg => {
+      if (leg.from.name === 'NORTH POLE') return;
+      expect(leg.departAt).toBeLessThanOrEqual(christmasEndsAt(leg.from, YEAR));
+      expect(leg.arriveAt).toBeGreaterThanOrEqual(leg.departAt);
+    });
+  });
+
+  it('returns to the North Pole at 11:30Z on Dec 26', () => {
+    const last = plan[plan.length - 1];
+    expect(last.from.name).toBe('MIDWAY');
+    expect(last.to.name).toBe('NORTH POLE');
+    expect(last.departAt).toBe(at(26, 11));
+    expect(last.arriveAt).toBe(at(26, 11, 30));
+    expect(last.arriveAt).toBeLessThanOrEqual(end.getTime());
+
+    const home = getFlightState(new Date(at(26, 11, 30)), plan);
+    expect(home.inTransit).toBe(false);
+    expect(home.coordinates[0]).toBeCloseTo(90, 5);
+  });
+});
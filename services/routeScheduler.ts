@@ -0,0 +1,56 @@
+import { TrackingLocation } from '../types';
+import { normalizeLon } from './geo';
+import { christmasEndsAt, getUtcOffsetMinutes } from './timezone';
+
+// Route scheduling: turns an unordered station list into the sequence Santa flies,
+// following Dec 26 00:00 westward. Stations are grouped by the instant midnight reaches
+// them, so :30 and :45 zones (Tehran, India, Nepal, Chatham) and daylight time resolve correctly.
+
+export interface ScheduledStop {
+  station: TrackingLocation;
+  offsetMinutes: number; // UTC offset in effect when Christmas ends there
+  deadline: number;      // UTC epoch ms by which Santa leaves this stop
+  subIndex: number;      // Position within the group of stops sharing this offset
+  subCount: number;
+}
+
+// Groups stations by local midnight (earliest first) and splits each group's slot into
+// sub-stops ordered east to west by longitude. `launch` is the start of the first slot.
+export const buildRouteSchedule = (stations: TrackingLocation[], year: number, launch: number): ScheduledStop[] => {
+  const groups = new Map<number, TrackingLocation[]>();
+  stations.forEach(station => {
+    const key = christmasEndsAt(station, year);
+    groups.set(key, [...(groups.get(key) || []), station]);
+  });
+
+  const deadlines = [...groups.keys()].sort((a, b) => a - b);
+  const schedule: ScheduledStop[] = [];
+  let slotStart = launch;
+
+  deadlines.forEach(groupDeadline => {
+    const members = groups.get(groupDeadline)!;
+    const offsetMinutes = getUtcOffsetMinutes(members[0], new Date(groupDeadline));
+
+    // Midnight sweeps westward, so visit the easternmost member first. Longitudes are
+    // compared relative to the first member so groups straddling the date line still sort.
+    const reference = members[0].coordinates[1];
+    const ordered = [...members].sort((a, b) =>
+      normalizeLon(b.coordinates[1] - reference) - normalizeLon(a.coordinates[1] - reference)
+    );
+
+    const subSlot = (groupDeadline - slotStart) / ordered.length;
+    ordered.forEach((station, i) => {
+      schedule.push({
+        station,
+        offsetMinutes,
+        deadline: i === ordered.length - 1 ? groupDeadline : Math.round(slotStart + subSlot * (i + 1)),
+        subIndex: i,
+        subCount: ordered.length
+      });
+    });
+
+    slotStart = groupDeadline;
+  });
+
+  return schedule;
+};
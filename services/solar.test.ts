@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { getSubsolarPoint, getSiderealAngle } from './solar';
+
+// Reference instants for 2024 (USNO)
+const JUNE_SOLSTICE = new Date(Date.UTC(2024, 5, 20, 20, 51));
+const DECEMBER_SOLSTICE = new Date(Date.UTC(2024, 11, 21, 9, 20));
+const MARCH_EQUINOX = new Date(Date.UTC(2024, 2, 20, 3, 6));
+const SEPTEMBER_EQUINOX = new Date(Date.UTC(2024, 8, 22, 12, 44));
+const J2000 = new Date(Date.UTC(2000, 0, 1, 12, 0, 0));
+
+// Equation of time sampled at noon UTC every day of the year
+const equationOfTimeByDay = (year: number): { day: Date, minutes: number }[] =>
+  Array.from({ length: 366 }, (_, i) => {
+    const day = new Date(Date.UTC(year, 0, 1 + i, 12));
+    return { day, minutes: getSubsolarPoint(day).equationOfTimeMinutes };
+  });
+
+describe('getSubsolarPoint', () => {
+  it('puts the sun over the tropics at the solstices', () => {
+    expect(getSubsolarPoint(JUNE_SOLSTICE).declination).toBeCloseTo(23.44, 1);
+    expect(getSubsolarPoint(DECEMBER_SOLSTICE).declination).toBeCloseTo(-23.44, 1);
+  });
+
+  it('puts the sun over the equator at the equinoxes', () => {
+    expect(Math.abs(getSubsolarPoint(MARCH_EQUINOX).declination)).toBeLessThan(0.02);
+    expect(Math.abs(getSubsolarPoint(SEPTEMBER_EQUINOX).declination)).toBeLessThan(0.02);
+  });
+
+  it('reports the subsolar latitude as the declination', () => {
+    const point = getSubsolarPoint(JUNE_SOLSTICE);
+    expect(point.lat).toBe(point.declination);
+  });
+
+  it('peaks the equation of time at about +16.4 min in early November', () => {
+    const max = equationOfTimeByDay(2024).reduce((a, b) => (b.minutes > a.minutes ? b : a));
+    expect(max.minutes).toBeCloseTo(16.4, 0);
+    expect(max.day.getUTCMonth()).toBe(10);
+    expect(max.day.getUTCDate()).toBeLessThanOrEqual(5);
+  });
+
+  it('bottoms the equation of time at about -14.2 min in mid February', () => {
+    const min = equationOfTimeByDay(2024).reduce((a, b) => (b.minutes < a.minutes ? b : a));
+    expect(min.minutes).toBeCloseTo(-14.2, 0);
+    expect(min.day.getUTCMonth()).toBe(1);
+    expect(min.day.getUTCDate()).toBeGreaterThanOrEqual(8);
+    expect(min.day.getUTCDate()).toBeLessThanOrEqual(16);
+  });
+
+  it('puts the sun west of Greenwich at noon UTC when the sun runs fast', () => {
+    const noon = new Date(Date.UTC(2024, 10, 3, 12));
+    const point = getSubsolarPoint(noon);
+    expect(point.lon).toBeCloseTo(-point.equationOfTimeMinutes / 4, 6);
+    expect(point.lon).toBeLessThan(0);
+  });
+});
+
+describe('getSiderealAngle', () => {
+  it('is 280.46 deg at J2000', () => {
+    expect(getSiderealAngle(J2000)).toBeCloseTo(280.46, 2);
+  });
+
+  it('gains about 0.9856 deg per solar day', () => {
+    const nextDay = new Date(J2000.getTime() + 86400000);
+    expect(getSiderealAngle(nextDay) - getSiderealAngle(J2000)).toBeCloseTo(0.9856, 3);
+  });
+
+  it('stays within [0, 360)', () => {
+    for (let i = 0; i < 48; i++) {
+      const angle = getSiderealAngle(new Date(J2000.getTime() + i * 3600000 * 7.3));
+      expect(angle).toBeGreaterThanOrEqual(0);
+      expect(angle).toBeLessThan(360);
+    }
+  });
+});
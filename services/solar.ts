@@ -0,0 +1,64 @@
+import { normalizeLon } from './geo';
+
+// Solar ephemeris (NOAA low-precision algorithm, good to ~0.01 deg for this century).
+// Used for the day/night terminator on the globe and the solar readout in the HUD.
+
+export interface SubsolarPoint {
+  lat: number;                    // Degrees; equals the solar declination
+  lon: number;                    // Degrees east, [-180, 180)
+  declination: number;            // Degrees
+  equationOfTimeMinutes: number;  // Apparent minus mean solar time
+}
+
+const DEG = Math.PI / 180;
+
+// Julian centuries since J2000.0
+const julianCentury = (date: Date): number => {
+  const julianDay = date.getTime() / 86400000 + 2440587.5;
+  return (julianDay - 2451545.0) / 36525;
+};
+
+// Greenwich mean sidereal time as an angle in degrees [0, 360): how far the Earth has
+// turned relative to the stars
+export const getSiderealAngle = (date: Date): number => {
+  const daysSinceJ2000 = date.getTime() / 86400000 + 2440587.5 - 2451545.0;
+  const T = daysSinceJ2000 / 36525;
+  const gmst = 280.46061837 + 360.98564736629 * daysSinceJ2000 + T * T * (0.000387933 - T / 38710000);
+  return ((gmst % 360) + 360) % 360;
+};
+
+export const getSubsolarPoint = (date: Date): SubsolarPoint => {
+  const T = julianCentury(date);
+
+  const meanLong = (280.46646 + T * (36000.76983 + T * 0.0003032)) % 360;
+  const meanAnomaly = 357.52911 + T * (35999.05029 - 0.0001537 * T);
+  const eccentricity = 0.016708634 - T * (0.000042037 + 0.0000001267 * T);
+
+  const center =
+    Math.sin(meanAnomaly * DEG) * (1.914602 - T * (0.004817 + 0.000014 * T)) +
+    Math.sin(2 * meanAnomaly * DEG) * (0.019993 - 0.000101 * T) +
+    Math.sin(3 * meanAnomaly * DEG) * 0.000289;
+
+  const omega = 125.04 - 1934.136 * T;
+  const apparentLong = meanLong + center - 0.00569 - 0.00478 * Math.sin(omega * DEG);
+
+  const meanObliquity = 23 + (26 + (21.448 - T * (46.815 + T * (0.00059 - T * 0.001813))) / 60) / 60;
+  const obliquity = meanObliquity + 0.00256 * Math.cos(omega * DEG);
+
+  const declination = Math.asin(Math.sin(obliquity * DEG) * Math.sin(apparentLong * DEG)) / DEG;
+
+  const y = Math.tan((obliquity / 2) * DEG) ** 2;
+  const equationOfTimeMinutes = 4 / DEG * (
+    y * Math.sin(2 * meanLong * DEG) -
+    2 * eccentricity * Math.sin(meanAnomaly * DEG) +
+    4 * eccentricity * y * Math.sin(meanAnomaly * DEG) * Math.cos(2 * meanLong * DEG) -
+    0.5 * y * y * Math.sin(4 * meanLong * DEG) -
+    1.25 * eccentricity * eccentricity * Math.sin(2 * meanAnomaly * DEG)
+  );
+
+  // The sun is overhead where apparent solar time is noon
+  const utcMinutes = (date.getTime() % 86400000 + 86400000) % 86400000 / 60000;
+  const lon = normalizeLon(-(utcMinutes - 720 + equationOfTimeMinutes) / 4);
+
+  return { lat: declination, lon, declination, equationOfTimeMinutes };
+};
@@ -0,0 +1,144 @@
+import { Theme, ViewMode } from '../types';
+
+// Theme registry: one definition per view mode. The HUD and globe read colours from
+// here (through ThemeProvider), so a new view mode only needs a new entry.
+
+export const THEMES: Record<ViewMode, Theme> = {
+  [ViewMode.OPTICAL]: {
+    mode: ViewMode.OPTICAL,
+    primary: '#00ffff',
+    primaryDark: '#0099aa',
+    primaryLight: '#44ffff',
+    secondary: '#88ffff',
+    accent: '#00ccff',
+    glow: 'rgba(0,255,255,0.3)',
+    glowStrong: 'rgba(0,255,255,0.6)',
+    videoFilter: 'contrast(110%) brightness(105%)',
+    shaderMode: 0,
+    atmosphere: '#004466',
+    atmosphereOpacity: 0.15,
+    pointCloud: null,
+    nightLights: 1,
+    santaMarker: '#ff0000',
+    santaGlow: '#ff0000',
+    sleighHeat: null,
+    visitedMarker: '#00ffff',
+    visitedGlow: '#006666',
+    routeLine: '#00aaaa',
+    routeGlow: '#00ffff',
+    trajectoryLine: '#00ffff',
+    trajectoryGlow: '#00ccff',
+    trajectoryParticle: '#ffffff',
+    terrain: '#003344'
+  },
+  [ViewMode.THERMAL]: {
+    mode: ViewMode.THERMAL,
+    primary: '#ff6600',
+    primaryDark: '#cc4400',
+    primaryLight: '#ff8844',
+    secondary: '#ffaa44',
+    accent: '#ff4400',
+    glow: 'rgba(255,102,0,0.3)',
+    glowStrong: 'rgba(255,102,0,0.6)',
+    videoFilter: 'grayscale(100%) contrast(150%) brightness(120%) sepia(100%) hue-rotate(-50deg) saturate(400%)',
+    shaderMode: 1,
+    atmosphere: '#ff4400',
+    atmosphereOpacity: 0.05,
+    pointCloud: null,
+    nightLights: 0,
+    santaMarker: '#ff0000',
+    santaGlow: '#ff8800',
+    sleighHeat: '#fff2b0',
+    visitedMarker: '#ffaa00',
+    visitedGlow: '#ff6600',
+    routeLine: '#ff8800',
+    routeGlow: '#ffaa44',
+    trajectoryLine: '#ff6600',
+    trajectoryGlow: '#ff8800',
+    trajectoryParticle: '#ffaa00',
+    terrain: '#550000'
+  },
+  [ViewMode.NIGHT_VISION]: {
+    mode: ViewMode.NIGHT_VISION,
+    primary: '#00ff00',
+    primaryDark: '#00aa00',
+    primaryLight: '#44ff44',
+    secondary: '#88ff88',
+    accent: '#00cc00',
+    glow: 'rgba(0,255,0,0.3)',
+    glowStrong: 'rgba(0,255,0,0.6)',
+    videoFilter: 'grayscale(100%) contrast(130%) brightness(150%) sepia(100%) hue-rotate(50deg) saturate(300%)',
+    shaderMode: 2,
+    atmosphere: '#00ff00',
+    atmosphereOpacity: 0.05,
+    pointCloud: null,
+    nightLights: 2.5,
+    santaMarker: '#ffff00',
+    santaGlow: '#ffaa00',
+    sleighHeat: null,
+    visitedMarker: '#ffcc00',
+    visitedGlow: '#ffaa00',
+    routeLine: '#ffaa00',
+    routeGlow: '#ffff00',
+    trajectoryLine: '#ffcc00',
+    trajectoryGlow: '#ffff00',
+    trajectoryParticle: '#ffff00',
+    terrain: '#005500'
+  },
+  [ViewMode.LIDAR]: {
+    mode: ViewMode.LIDAR,
+    primary: '#cc66ff',
+    primaryDark: '#8833bb',
+    primaryLight: '#dd99ff',
+    secondary: '#eeccff',
+    accent: '#aa44ff',
+    glow: 'rgba(204,102,255,0.3)',
+    glowStrong: 'rgba(204,102,255,0.6)',
+    videoFilter: 'grayscale(100%) contrast(200%) brightness(90%) sepia(100%) hue-rotate(220deg) saturate(300%)',
+    shaderMode: 3,
+    atmosphere: '#6622aa',
+    atmosphereOpacity: 0.08,
+    pointCloud: '#dd99ff',
+    nightLights: 0,
+    santaMarker: '#ffffff',
+    santaGlow: '#ff44cc',
+    sleighHeat: null,
+    visitedMarker: '#ff88ff',
+    visitedGlow: '#aa44ff',
+    routeLine: '#9955dd',
+    routeGlow: '#cc88ff',
+    trajectoryLine: '#ff88ff',
+    trajectoryGlow: '#cc66ff',
+    trajectoryParticle: '#ffffff',
+    terrain: '#331155'
+  },
+  [ViewMode.SATELLITE]: {
+    mode: ViewMode.SATELLITE,
+    primary: '#f0f0f0',
+    primaryDark: '#8c8c8c',
+    primaryLight: '#ffffff',
+    secondary: '#ffffff',
+    accent: '#cccccc',
+    glow: 'rgba(255,255,255,0.25)',
+    glowStrong: 'rgba(255,255,255,0.5)',
+    videoFilter: 'contrast(160%) saturate(140%) brightness(105%)',
+    shaderMode: 4,
+    atmosphere: '#3388ff',
+    atmosphereOpacity: 0.12,
+    pointCloud: null,
+    nightLights: 0,
+    santaMarker: '#ff0000',
+    santaGlow: '#ff3300',
+    sleighHeat: null,
+    visitedMarker: '#ffffff',
+    visitedGlow: '#888888',
+    routeLine: '#ffdd00',
+    routeGlow: '#ffffff',
+    trajectoryLine: '#ff3300',
+    trajectoryGlow: '#ff8866',
+    trajectoryParticle: '#ffffff',
+    terrain: '#333333'
+  }
+};
+
+export const getTheme = (mode: ViewMode): Theme => THEMES[mode] || THEMES[ViewMode.OPTICAL];
@@ -0,0 +1,73 @@
+import { TrackingLocation } from '../types';
+
+// Timezone resolution for stations. Stations with an IANA `timeZone` go through
+// Intl.DateTimeFormat so daylight time is applied for the (possibly simulated) date;
+// the numeric `offset` is only used when no zone is given or the runtime doesn't know it.
+
+const formatters = new Map<string, Intl.DateTimeFormat | null>();
+
+const getFormatter = (timeZone: string): Intl.DateTimeFormat | null => {
+  if (!formatters.has(timeZone)) {
+    try {
+      formatters.set(timeZone, new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        hourCycle: 'h23',
+        year: 'numeric',
+        month: '2-digit',
+        day: '2-digit',
+        hour: '2-digit',
+        minute: '2-digit',
+        second: '2-digit'
+      }));
+    } catch {
+      // Unknown zone id: remember the miss and fall back to the fixed offset
+      formatters.set(timeZone, null);
+    }
+  }
+  return formatters.get(timeZone)!;
+};
+
+export const isValidTimeZone = (timeZone: string): boolean => getFormatter(timeZone) !== null;
+
+// Anything with a zone: stations, and the timezone bands on the globe
+type Zoned = Pick<TrackingLocation, 'offset' | 'timeZone'>;
+
+// Offset from UTC in minutes in effect at the station at the given instant
+export const getUtcOffsetMinutes = (station: Zoned, at: Date): number => {
+  const formatter = station.timeZone ? getFormatter(station.timeZone) : null;
+  if (!formatter) return Math.round(station.offset * 60);
+
+  const parts: Record<string, string> = {};
+  formatter.formatToParts(at).forEach(part => { parts[part.type] = part.value; });
+
+  const wallClockAsUtc = Date.UTC(
+    Number(parts.year), Number(parts.month) - 1, Number(parts.day),
+    Number(parts.hour) % 24, Number(parts.minute), Number(parts.second)
+  );
+  const wholeSeconds = Math.floor(at.getTime() / 1000) * 1000;
+  return Math.round((wallClockAsUtc - wholeSeconds) / 60000);
+};
+
+// UTC instant at which Dec 26 00:00 local arrives at a station (Christmas ends there).
+// Resolved twice so a DST change near the guess still lands on the right offset.
+export const christmasEndsAt = (station: Zoned, year: number): number => {
+  const localMidnight = Date.UTC(year, 11, 26);
+  let utc = localMidnight - getUtcOffsetMinutes(station, new Date(localMidnight)) * 60 * 1000;
+  utc = localMidnight - getUtcOffsetMinutes(station, new Date(utc)) * 60 * 1000;
+  return utc;
+};
+
+// UTC time of day as HH:MMZ
+export const formatUtcTime = (at: number): string => {
+  const date = new Date(at);
+  return `${date.getUTCHours().toString().padStart(2, '0')}:${date.getUTCMinutes().toString().padStart(2, '0')}Z`;
+};
+
+// Local wall-clock time at a station as HH:MM
+export const formatLocalTime = (now: Date, station: TrackingLocation): string => {
+  const minutesOfDay = now.getUTCHours() * 60 + now.getUTCMinutes() + getUtcOffsetMinutes(station, now);
+  const wrapped = ((minutesOfDay % 1440) + 1440) % 1440;
+  const h = Math.floor(wrapped / 60);
+  const m = wrapped % 60;
+  return `${h.toString().padStart(2, '0')}:${m.toString().padStart(2, '0')}`;
+};
@@ -1,177 +1,282 @@
 
-import { TrackingLocation } from '../types';
+import { TrackingLocation, MissionPhase } from '../types';
+import { missionClock, getMissionWindow, getReplayWindow } from './missionClock';
+import { interpolateGreatCircle, initialBearing, distanceKm } from './geo';
+import { buildRouteSchedule } from './routeScheduler';
+import { formatLocalTime, formatUtcTime } from './timezone';
+import { getDeliveryStatus, DeliveryStatus } from './deliveryModel';
 
-// Ordered from West to East (-11 to +14) following Christmas as midnight arrives
+// Listed from West to East (-11 to +14); the visiting order comes from routeScheduler
 // Santa follows the midnight line as it moves westward around Earth
 export const TRACKING_STATIONS: TrackingLocation[] = [
-  { name: 'MIDWAY', offset: -11, region: 'PACIFIC', coordinates: [28.2072, -177.3735] },
-  { name: 'HONOLULU', offset: -10, region: 'PACIFIC', coordinates: [21.3069, -157.8583] },
-  { name: 'ANCHORAGE', offset: -9, region: 'N. AMERICA', coordinates: [61.2181, -149.9003] },
-  { name: 'LOS ANGELES', offset: -8, region: 'N. AMERICA', coordinates: [34.0522, -118.2437] },
-  { name: 'DENVER', offset: -7, region: 'N. AMERICA', coordinates: [39.7392, -104.9903] },
-  { name: 'CHICAGO', offset: -6, region: 'N. AMERICA', coordinates: [41.8781, -87.6298] },
-  { name: 'NEW YORK', offset: -5, region: 'N. AMERICA', coordinates: [40.7128, -74.0060] },
-  { name: 'CARACAS', offset: -4, region: 'S. AMERICA', coordinates: [10.4806, -66.9036] },
-  { name: 'RIO DE JANEIRO', offset: -3, region: 'S. AMERICA', coordinates: [-22.9068, -43.1729] },
-  { name: 'CAPE VERDE', offset: -1, region: 'ATLANTIC', coordinates: [14.9330, -23.5133] },
-  { name: 'LONDON', offset: 0, region: 'EUROPE', coordinates: [51.5074, -0.1278] },
-  { name: 'PARIS', offset: 1, region: 'EUROPE', coordinates: [48.8566, 2.3522] },
-  { name: 'CAIRO', offset: 2, region: 'AFRICA', coordinates: [30.0444, 31.2357] },
-  { name: 'MOSCOW', offset: 3, region: 'RUSSIA', coordinates: [55.7558, 37.6173] },
-  { name: 'NAIROBI', offset: 3, region: 'AFRICA', coordinates: [-1.2864, 36.8172] },
-  { name: 'DUBAI', offset: 4, region: 'MIDDLE EAST', coordinates: [25.2048, 55.2708] },
-  { name: 'TEHRAN', offset: 3.5, region: 'MIDDLE EAST', coordinates: [35.6892, 51.3890] },
-  { name: 'MUMBAI', offset: 5.5, region: 'ASIA', coordinates: [19.0760, 72.8777] },
-  { name: 'NEW DELHI', offset: 5.5, region: 'ASIA', coordinates: [28.6139, 77.2090] },
-  { name: 'DHAKA', offset: 6, region: 'ASIA', coordinates: [23.8103, 90.4125] },
-  { name: 'BANGKOK', offset: 7, region: 'ASIA', coordinates: [13.7563, 100.5018] },
-  { name: 'JAKARTA', offset: 7, region: 'ASIA', coordinates: [-6.2088, 106.8456] },
-  { name: 'BEIJING', offset: 8, region: 'ASIA', coordinates: [39.9042, 116.4074] },
-  { name: 'TOKYO', offset: 9, region: 'ASIA', coordinates: [35.6762, 139.6503] },
-  { name: 'GUAM', offset: 10, region: 'PACIFIC', coordinates: [13.4443, 144.7937] },
-  { name: 'SYDNEY', offset: 11, region: 'AUSTRALIA', coordinates: [-33.8688, 151.2093] },
-  { name: 'KAMCHATKA', offset: 12, region: 'RUSSIA', coordinates: [56.1327, 159.5314] },
-  { name: 'AUCKLAND', offset: 13, region: 'NEW ZEALAND', coordinates: [-36.8509, 174.7645] },
-  { name: 'KIRITIMATI', offset: 14, region: 'PACIFIC', coordinates: [1.8709, -157.4014] },
+  { name: 'MIDWAY', offset: -11, timeZone: 'Pacific/Midway', region: 'PACIFIC', coordinates: [28.2072, -177.3735], population: 5000000 },
+  { name: 'HONOLULU', offset: -10, timeZone: 'Pacific/Honolulu', region: 'PACIFIC', coordinates: [21.3069, -157.8583], population: 10000000 },
+  { name: 'ANCHORAGE', offset: -9, timeZone: 'America/Anchorage', region: 'N. AMERICA', coordinates: [61.2181, -149.9003], population: 15000000 },
+  { name: 'LOS ANGELES', offset: -8, timeZone: 'America/Los_Angeles', region: 'N. AMERICA', coordinates: [34.0522, -118.2437], population: 120000000 },
+  { name: 'DENVER', offset: -7, timeZone: 'America/Denver', region: 'N. AMERICA', coordinates: [39.7392, -104.9903], population: 60000000 },
+  { name: 'CHICAGO', offset: -6, timeZone: 'America/Chicago', region: 'N. AMERICA', coordinates: [41.8781, -87.6298], population: 110000000 },
+  { name: 'NEW YORK', offset: -5, timeZone: 'America/New_York', region: 'N. AMERICA', coordinates: [40.7128, -74.0060], population: 140000000 },
+  { name: 'CARACAS', offset: -4, timeZone: 'America/Caracas', region: 'S. AMERICA', coordinates: [10.4806, -66.9036], population: 90000000 },
+  { name: 'RIO DE JANEIRO', offset: -3, timeZone: 'America/Sao_Paulo', region: 'S. AMERICA', coordinates: [-22.9068, -43.1729], population: 210000000 },
+  { name: 'CAPE VERDE', offset: -1, timeZone: 'Atlantic/Cape_Verde', region: 'ATLANTIC', coordinates: [14.9330, -23.5133], population: 15000000 },
+  { name: 'LONDON', offset: 0, timeZone: 'Europe/London', region: 'EUROPE', coordinates: [51.5074, -0.1278], population: 130000000 },
+  { name: 'PARIS', offset: 1, timeZone: 'Europe/Paris', region: 'EUROPE', coordinates: [48.8566, 2.3522], population: 250000000 },
+  { name: 'CAIRO', offset: 2, timeZone: 'Africa/Cairo', region: 'AFRICA', coordinates: [30.0444, 31.2357], population: 180000000 },
+  { name: 'MOSCOW', offset: 3, timeZone: 'Europe/Moscow', region: 'RUSSIA', coordinates: [55.7558, 37.6173], population: 150000000 },
+  { name: 'NAIROBI', offset: 3, timeZone: 'Africa/Nairobi', region: 'AFRICA', coordinates: [-1.2864, 36.8172], population: 300000000 },
+  { name: 'TEHRAN', offset: 3.5, timeZone: 'Asia/Tehran', region: 'MIDDLE EAST', coordinates: [35.6892, 51.3890], population: 120000000 },
+  { name: 'DUBAI', offset: 4, timeZone: 'Asia/Dubai', region: 'MIDDLE EAST', coordinates: [25.2048, 55.2708], population: 80000000 },
+  { name: 'MUMBAI', offset: 5.5, timeZone: 'Asia/Kolkata', region: 'ASIA', coordinates: [19.0760, 72.8777], population: 350000000 },
+  { name: 'NEW DELHI', offset: 5.5, timeZone: 'Asia/Kolkata', region: 'ASIA', coordinates: [28.6139, 77.2090], population: 400000000 },
+  { name: 'DHAKA', offset: 6, timeZone: 'Asia/Dhaka', region: 'ASIA', coordinates: [23.8103, 90.4125], population: 250000000 },
+  { name: 'BANGKOK', offset: 7, timeZone: 'Asia/Bangkok', region: 'ASIA', coordinates: [13.7563, 100.5018], population: 200000000 },
+  { name: 'JAKARTA', offset: 7, timeZone: 'Asia/Jakarta', region: 'ASIA', coordinates: [-6.2088, 106.8456], population: 280000000 },
+  { name: 'BEIJING', offset: 8, timeZone: 'Asia/Shanghai', region: 'ASIA', coordinates: [39.9042, 116.4074], population: 700000000 },
+  { name: 'TOKYO', offset: 9, timeZone: 'Asia/Tokyo', region: 'ASIA', coordinates: [35.6762, 139.6503], population: 150000000 },
+  { name: 'GUAM', offset: 10, timeZone: 'Pacific/Guam', region: 'PACIFIC', coordinates: [13.4443, 144.7937], population: 20000000 },
+  { name: 'SYDNEY', offset: 11, timeZone: 'Australia/Sydney', region: 'AUSTRALIA', coordinates: [-33.8688, 151.2093], population: 30000000 },
+  { name: 'KAMCHATKA', offset: 12, timeZone: 'Asia/Kamchatka', region: 'RUSSIA', coordinates: [56.1327, 159.5314], population: 10000000 },
+  { name: 'AUCKLAND', offset: 13, timeZone: 'Pacific/Auckland', region: 'NEW ZEALAND', coordinates: [-36.8509, 174.7645], population: 8000000 },
+  { name: 'KIRITIMATI', offset: 14, timeZone: 'Pacific/Kiritimati', region: 'PACIFIC', coordinates: [1.8709, -157.4014], population: 2000000 },
 ];
 
+// Route currently flown. Defaults to TRACKING_STATIONS; replaced when a route file is loaded
+let activeStations: TrackingLocation[] = TRACKING_STATIONS;
+
+export const getTrackingRoute = (): TrackingLocation[] => activeStations;
+
+export const setTrackingRoute = (stations: TrackingLocation[]): void => {
+  activeStations = stations.length > 0 ? stations : TRACKING_STATIONS;
+};
+
 const NORTH_POLE_COORDS: [number, number] = [90, 0];
 
-export const getSantaLocation = (): { 
+// The launch/return base: on the visited list and route, but not a stop
+export const isNorthPole = ([lat, lon]: [number, number]): boolean =>
+  lat === NORTH_POLE_COORDS[0] && lon === NORTH_POLE_COORDS[1];
+
+const NORTH_POLE: TrackingLocation = {
+  name: 'NORTH POLE',
+  region: 'ARCTIC',
+  offset: 0,
+  coordinates: NORTH_POLE_COORDS
+};
+
+// --- FLIGHT MODEL ---
+
+export interface FlightModelOptions {
+  dwellMinutes: number;   // Minimum time spent over each stop before Dec 26 00:00 arrives there
+  transitMinutes: number; // Time to fly one leg between consecutive stops
+}
+
+export const DEFAULT_FLIGHT_MODEL: FlightModelOptions = {
+  dwellMinutes: 20,
+  transitMinutes: 30
+};
+
+export interface FlightLeg {
+  index: number;
+  from: TrackingLocation;
+  to: TrackingLocation;
+  departAt: number; // UTC epoch ms
+  arriveAt: number; // UTC epoch ms
+}
+
+export interface FlightState {
+  legIndex: number;  // -1 before launch
+  leg: FlightLeg | null;
+  progress: number;  // 0..1 along the current leg
+  heading: number;   // Degrees clockwise from true north
+  inTransit: boolean;
+  coordinates: [number, number];
+}
+
+// The mission a given instant belongs to (early January still replays last December)
+const missionYear = (now: Date): number => getReplayWindow(now).start.getUTCFullYear();
+
+export const buildFlightPlan = (year: number, options: FlightModelOptions = DEFAULT_FLIGHT_MODEL): FlightLeg[] => {
+  const dwell = options.dwellMinutes * 60 * 1000;
+  const transit = options.transitMinutes * 60 * 1000;
+  const launch = getMissionWindow(year).start.getTime();
+
+  // East to West following midnight, with shared offsets split into sub-stops
+  const stops = buildRouteSchedule(activeStations, year, launch);
+  const legs: FlightLeg[] = [];
+
+  // Launch leg: leave the North Pole as soon as Christmas starts in the first timezone
+  legs.push({ index: 0, from: NORTH_POLE, to: stops[0].station, departAt: launch, arriveAt: Math.min(stops[0].deadline, launch + transit) });
+
+  // Each stop is left at its deadline. The leg is compressed when the slot is too short
+  // to fly it and still spend `dwell` at the next stop (but never below half the slot).
+  for (let i = 1; i < stops.length; i++) {
+    const departAt = stops[i - 1].deadline;
+    const slot = stops[i].deadline - departAt;
+    const arriveAt = departAt + Math.min(transit, Math.max(slot - dwell, slot / 2));
+    legs.push({ index: i, from: stops[i - 1].station, to: stops[i].station, departAt, arriveAt });
+  }
+
+  // Return leg once Christmas is over at the last stop
+  const last = stops[stops.length - 1];
+  legs.push({ index: stops.length, from: last.station, to: NORTH_POLE, departAt: last.deadline, arriveAt: last.deadline + transit });
+
+  return legs;
+};
+
+export const getFlightState = (now: Date, plan: FlightLeg[]): FlightState => {
+  const t = now.getTime();
+
+  let legIndex = -1;
+  for (let i = 0; i < plan.length; i++) {
+    if (plan[i].departAt <= t) legIndex = i;
+  }
+
+  if (legIndex < 0) {
+    return { legIndex: -1, leg: null, progress: 0, heading: 0, inTransit: false, coordinates: NORTH_POLE_COORDS };
+  }
+
+  const leg = plan[legIndex];
+  const duration = leg.arriveAt - leg.departAt;
+  const progress = duration > 0 ? Math.min(1, Math.max(0, (t - leg.departAt) / duration)) : 1;
+  const coordinates = interpolateGreatCircle(leg.from.coordinates, leg.to.coordinates, progress);
+
+  // Great-circle heading changes along the leg, so take it from the current point.
+  // Once landed, keep the heading the sleigh arrived with.
+  const headingFrom = progress < 1 ? coordinates : interpolateGreatCircle(leg.from.coordinates, leg.to.coordinates, 0.99);
+  const heading = initialBearing(headingFrom, leg.to.coordinates);
+
+  return { legIndex, leg, progress, heading, inTransit: progress < 1, coordinates };
+};
+
+export interface NextStop {
+  station: TrackingLocation;
+  eta: number;        // UTC epoch ms
+  etaUtc: string;     // HH:MMZ
+  etaLocal: string;   // HH:MM in the viewer's own timezone
+  distanceKm: number; // Great-circle distance from the sleigh's current position
+}
+
+// The stop the sleigh is flying to, or the one after the stop it is holding over
+const getNextStop = (flight: FlightState, plan: FlightLeg[]): NextStop | null => {
+  const nextLeg = flight.inTransit ? flight.leg : plan[flight.legIndex + 1];
+  if (!nextLeg) return null;
+
+  const etaDate = new Date(nextLeg.arriveAt);
+  return {
+    station: nextLeg.to,
+    eta: nextLeg.arriveAt,
+    etaUtc: formatUtcTime(nextLeg.arriveAt),
+    etaLocal: etaDate.toLocaleTimeString('en-US', { hour12: false, hour: '2-digit', minute: '2-digit' }),
+    distanceKm: distanceKm(flight.coordinates, nextLeg.to.coordinates)
+  };
+};
+
+export interface StationSchedule {
+  index: number;    // Stop number on the route (station names needn't be unique)
+  station: TrackingLocation;
+  arriveAt: number; // UTC epoch ms
+  departAt: number; // UTC epoch ms
+  status: 'PENDING' | 'OVERHEAD' | 'VISITED';
+}
+
+// Arrival and departure for every stop (the final leg back to the North Pole isn't a stop)
+const getStationSchedule = (now: Date, plan: FlightLeg[]): StationSchedule[] => {
+  const t = now.getTime();
+  return plan.slice(0, -1).map((leg, i) => {
+    const departAt = plan[i + 1].departAt;
+    return {
+      index: i,
+      station: leg.to,
+      arriveAt: leg.arriveAt,
+      departAt,
+      status: t >= departAt ? 'VISITED' : t >= leg.arriveAt ? 'OVERHEAD' : 'PENDING'
+    };
+  });
+};
+
+export const getMissionPhase = (flight: FlightState, plan: FlightLeg[]): MissionPhase => {
+  if (flight.legIndex < 0) return MissionPhase.PRE_LAUNCH;
+  if (flight.legIndex < plan.length - 1) return MissionPhase.ACTIVE;
+  return flight.inTransit ? MissionPhase.RETURNING : MissionPhase.COMPLETE;
+};
+
+export const getSantaLocation = (now: Date = missionClock.now(), flightModel: FlightModelOptions = DEFAULT_FLIGHT_MODEL): { 
     location: TrackingLocation, 
     localTime: string, 
-    isChristmas: boolean,
     visitedLocations: [number, number][],
-    plannedRoute: [number, number][]
+    plannedRoute: [number, number][],
+    flight: FlightState,
+    nextStop: NextStop | null,
+    stations: StationSchedule[],
+    delivery: DeliveryStatus,
+    phase: MissionPhase,
+    launchAt: number, // UTC epoch ms the sleigh leaves the North Pole
+    returnAt: number  // UTC epoch ms it lands back home
 } => {
-  const now = new Date();
-  const utcHours = now.getUTCHours();
-  const utcMinutes = now.getUTCMinutes();
-  const utcDecimalHours = utcHours + (utcMinutes / 60);
-  
   // Mission Logic:
   // Santa follows Christmas westward as midnight Dec 26 progresses around the world
   // He stays at a location WHILE it's December 25th there (00:00 Dec 25 to 23:59 Dec 25)
-  // He moves to the next timezone westward when Dec 26 00:00 arrives in current location
-  
-  let currentStation: TrackingLocation;
-  let visited: [number, number][] = [];
-  
-  // Sort stations from East to West (highest offset to lowest)
-  const stationsByTimezone = [...TRACKING_STATIONS].sort((a, b) => b.offset - a.offset);
-  
-  // Find the station where Christmas is closest to ending (closest to Dec 26 00:01 AM local time)
-  let currentStationIndex = -1;
-  let smallestTimeToMidnight = Infinity;
-  
-  for (let i = 0; i < stationsByTimezone.length; i++) {
-    const station = stationsByTimezone[i];
-    
-    // Calculate the actual local time in this timezone
-    const localTime = new Date(now.getTime() + station.offset * 60 * 60 * 1000);
-    const localMonth = localTime.getUTCMonth();
-    const localDate = localTime.getUTCDate();
-    const localHours = localTime.getUTCHours();
-    const localMinutes = localTime.getUTCMinutes();
-    
-    // Check if it's December 25th in this timezone
-    if (localMonth === 11 && localDate === 25) {
-      // Calculate minutes until Dec 26 00:01 AM
-      const minutesUntilMidnight = (24 - localHours) * 60 - localMinutes + 1;
-      
-      // Find the location where Christmas is ending soonest (smallest time to midnight)
-      if (minutesUntilMidnight < smallestTimeToMidnight) {
-        smallestTimeToMidnight = minutesUntilMidnight;
-        currentStationIndex = i;
-      }
-    }
-  }
-  
-  // Pre-launch: Before Christmas starts anywhere (before Dec 24 10:00 UTC when UTC+14 hits midnight)
-  // Calculate if Christmas has started in the first timezone (UTC+14)
-  const firstStation = stationsByTimezone[0]; // UTC+14
-  const firstStationLocalTime = new Date(now.getTime() + firstStation.offset * 60 * 60 * 1000);
-  const christmasNotStarted = firstStationLocalTime.getUTCMonth() === 11 && firstStationLocalTime.getUTCDate() < 25;
-  
-  if (christmasNotStarted) {
-    // Still at North Pole, Christmas hasn't started anywhere yet
-    currentStation = { 
-      name: 'NORTH POLE', 
-      region: 'ARCTIC', 
-      offset: 0, 
-      coordinates: NORTH_POLE_COORDS 
-    };
-    visited = [NORTH_POLE_COORDS];
-  }
-  // Active mission: Christmas is happening in at least one timezone
-  else if (currentStationIndex >= 0) {
-    currentStation = stationsByTimezone[currentStationIndex];
-    
-    // Build visited list: North Pole + all stations where Christmas has ended (indices 0 to currentIndex)
-    visited = [NORTH_POLE_COORDS];
-    for (let i = 0; i <= currentStationIndex; i++) {
-      visited.push(stationsByTimezone[i].coordinates);
-    }
+  // He flies to the next timezone westward, arriving before Dec 26 00:00 reaches it
+  // Stations sharing a timezone are visited in turn, east to west, within that zone's hour
+  const plan = buildFlightPlan(missionYear(now), flightModel);
+  const flight = getFlightState(now, plan);
+
+  // Pre-launch: still at the North Pole. Otherwise the target is the current leg's destination
+  // (which is the North Pole again once the return leg starts)
+  const currentStation = flight.leg ? flight.leg.to : NORTH_POLE;
+
+  // Build visited list: North Pole + every stop already reached
+  const visited: [number, number][] = [NORTH_POLE_COORDS];
+  for (let i = 0; i < flight.legIndex; i++) {
+    visited.push(plan[i].to.coordinates);
   }
-  // Mission complete: Christmas has ended everywhere
-  else {
-    currentStation = { 
-      name: 'NORTH POLE', 
-      region: 'ARCTIC', 
-      offset: 0, 
-      coordinates: NORTH_POLE_COORDS 
-    };
-    visited = [NORTH_POLE_COORDS];
-    for (let i = 0; i < stationsByTimezone.length; i++) {
-      visited.push(stationsByTimezone[i].coordinates);
-    }
-    visited.push(NORTH_POLE_COORDS);
+  if (flight.leg && !flight.inTransit) {
+    visited.push(flight.leg.to.coordinates);
   }
 
   // Calculate local time for display
-  const totalMinutes = (utcHours * 60) + utcMinutes + (currentStation.offset * 60);
-  const localH = Math.floor((totalMinutes / 60) % 24 + 24) % 24;
-  const localM = Math.floor(totalMinutes % 60);
-  const localTimeString = `${localH.toString().padStart(2, '0')}:${localM.toString().padStart(2, '0')}`;
+  const localTimeString = formatLocalTime(now, currentStation);
 
-  // Build full planned route (East to West using sorted stations)
+  // Build full planned route (East to West, following the flight plan)
   const fullRoute: [number, number][] = [NORTH_POLE_COORDS];
-  for (let i = 0; i < stationsByTimezone.length; i++) {
-      fullRoute.push(stationsByTimezone[i].coordinates);
+  for (let i = 0; i < plan.length; i++) {
+      fullRoute.push(plan[i].to.coordinates);
   }
-  fullRoute.push(NORTH_POLE_COORDS); // Return home
 
   return {
     location: currentStation,
     localTime: localTimeString,
-    isChristmas: now.getDate() === 25 && now.getMonth() === 11,
     visitedLocations: visited,
-    plannedRoute: fullRoute
+    plannedRoute: fullRoute,
+    flight,
+    nextStop: getNextStop(flight, plan),
+    stations: getStationSchedule(now, plan),
+    delivery: getDeliveryStatus(now, plan),
+    phase: getMissionPhase(flight, plan),
+    launchAt: plan[0].departAt,
+    returnAt: plan[plan.length - 1].arriveAt
   };
 };
 
-export const calculateGifts = (): number => {
-    const now = new Date();
-    return 4500000000 + (now.getTime() % 10000000) * 15;
-};
-
 // --- LOGIC DRIVEN INTEL ---
 
 const REGION_LOGS: Record<string, string[]> = {
-  'PACIFIC': ['PACIFIC COMMAND: RADAR CONTACT CONFIRMED', 'OCEANIC SENSORS DETECT SLEIGH WAKE', 'US NAVY FLEET REPORTS VISUAL', 'TROPICAL WEATHER SYSTEMS: CLEAR'],
+  'PACIFIC': ['PACIFIC COMMAND: RADAR CONTACT CONFIRMED', 'OCEANIC SENSORS DETECT SLEIGH WAKE', 'US NAVY FLEET REPORTS VISUAL', 'ATOLL TRACKING STATIONS: CONTACT'],
   'NEW ZEALAND': ['KIWI SECTOR: AIRSPACE CLEAR', 'SOUTHERN CROSS VISUAL CONFIRMED', 'WELLINGTON CONTROL: GREETINGS'],
   'AUSTRALIA': ['RAAF INTERCEPTORS SCRAMBLED FOR ESCORT', 'OUTBACK SENSORS ONLINE', 'OPERATING IN SOUTHERN HEMISPHERE'],
   'ASIA': ['HIGH DENSITY POPULATION SECTOR', 'MANEUVERING AROUND SKYSCRAPERS', 'ORIENTAL AIR DEFENSE: FRIENDLY', 'SPEED INCREASED FOR DENSITY'],
   'RUSSIA': ['ENTERING RUSSIAN FEDERATION AIRSPACE', 'SIBERIAN THERMAL ANOMALY DETECTED', 'COSMODROME TRACKING ACTIVE'],
   'EUROPE': ['NATO EYES ONLY: TARGET TRACKING ACTIVE', 'ALPINE RADAR ECHOES', 'EU AIR TRAFFIC CONTROL: PRIORITY CLEARANCE'],
   'AFRICA': ['SAHARA THERMAL PLUME STABLE', 'EQUATORIAL CROSSING CONFIRMED', 'CONTINENTAL SCANS: GREEN'],
-  'ATLANTIC': ['MID-ATLANTIC RIDGE SENSORS ACTIVE', 'CARRIER GROUP REPORTS FLYBY', 'METEOROLOGICAL DATA: HEADWINDS'],
+  'ATLANTIC': ['MID-ATLANTIC RIDGE SENSORS ACTIVE', 'CARRIER GROUP REPORTS FLYBY', 'TRANSATLANTIC CORRIDOR: PRIORITY ROUTING'],
   'N. AMERICA': ['NORAD MAIN SENSORS: 100% CONFIDENCE', 'EAST COAST DEFENSE GRID: GREEN', 'CANADIAN NORAD REGION: CONTACT', 'FIGHTER WING DEPLOYED AS HONOR GUARD'],
   'S. AMERICA': ['SOUTHERN CONE RADAR: ACTIVE', 'AMAZON BASIN THERMAL SCAN: CLEAR'],
   'MIDDLE EAST': ['DESERT SENSORS ONLINE', 'AIRSPACE CORRIDOR SECURED'],
   'ARCTIC': ['POLAR VORTEX NAVIGATION ENGAGED', 'HOME BASE TELEMETRY LINKED', 'AURORA BOREALIS INTERFERENCE: NEGLIGIBLE']
 };
 
+// Regions a station may be assigned to (each has its own intel chatter)
+export const KNOWN_REGIONS = Object.keys(REGION_LOGS);
+
 const ACTION_LOGS = [
     "TARGET LOCKED: %LOC%",
     "INITIATING DELIVERY SEQUENCE: %LOC%",
@@ -195,8 +300,7 @@ const GENERIC_LOGS = [
     "CLOAKING DEVICE: DISENGAGED FOR LANDING",
     "INTERCEPT SQUADRON RTB // TARGET FRIENDLY",
     "ATMOSPHERIC ENTRY DETECTED // SHIELDS HOLDING",
-    "TRAJECTORY ALIGNMENT: OPTIMAL",
-    "VISIBILITY: UNLIMITED // CEILING: 50,000 FT"
+    "TRAJECTORY ALIGNMENT: OPTIMAL"
 ];
 
 export const generateIntelMessage = (locationName: string, region: string, speed: number, delivered: number): string => {
@@ -0,0 +1,170 @@
+import { getReplayWindow } from './missionClock';
+import { angularDistance, normalizeLon } from './geo';
+import weatherData from '../data/weather.json';
+
+// Weather along the route. A provider answers two questions: what are conditions at a
+// point, and where are the weather systems (for the globe's cloud layer). The bundled
+// provider reads data/weather.json - named systems placed at the start of the mission
+// window that drift over the night - on top of a simple late-December climatology.
+
+export type WeatherKind = 'CLOUD' | 'RAIN' | 'SNOW' | 'STORM' | 'FOG';
+export type Precipitation = 'NONE' | 'RAIN' | 'SNOW';
+
+export interface WeatherSystem {
+  name: string;
+  kind: WeatherKind;
+  center: [number, number]; // Lat, Lon at the requested time
+  radiusDeg: number;
+  intensity: number;        // 0..1 at the centre
+  precipitation: Precipitation; // What falls under it, by the temperature at its centre
+}
+
+export interface WeatherConditions {
+  windKt: number;
+  windFromDeg: number;   // Direction the wind blows from, degrees true
+  visibilityKm: number;
+  temperatureC: number;
+  cloudCover: number;    // 0..1
+  precipitation: Precipitation;
+  snowfallCmHr: number;
+  system: string | null; // Strongest named system over the point, if any
+}
+
+export interface WeatherProvider {
+  name: string;
+  getConditions: (coordinates: [number, number], at: Date) => Promise<WeatherConditions>;
+  getSystems: (at: Date) => Promise<WeatherSystem[]>;
+}
+
+// --- Static provider (bundled data) ---
+
+interface WeatherFeature {
+  properties: { name: string, kind: string, radiusDeg: number, intensity: number, drift?: number[] }; // Drift: [lat, lon] degrees per hour
+  geometry: { type: string, coordinates: number[] }; // Point, [lon, lat]
+}
+
+export interface WeatherSource {
+  features: WeatherFeature[];
+}
+
+const MAX_VISIBILITY_KM = 10;
+const SNOW_BELOW_C = 4; // Surface temperature under which precipitation reaches the ground as snow
+
+// Late-December surface temperature by latitude: northern winter, southern summer
+const climateTemperature = (lat: number): number =>
+  lat >= 0 ? 27 - 0.9 * Math.max(0, lat - 15) : 27 - 0.45 * Math.max(0, -lat - 25);
+
+// Prevailing wind by latitude band: trades, westerlies, polar easterlies
+const prevailingWind = (lat: number): { windKt: number, windFromDeg: number } => {
+  const abs = Math.abs(lat);
+  if (abs < 30) return { windKt: 12, windFromDeg: lat >= 0 ? 60 : 120 };
+  if (abs < 60) return { windKt: 20, windFromDeg: 270 };
+  return { windKt: 10, windFromDeg: 90 };
+};
+
+// Strength of a system at a point: intensity falling off with distance from its centre
+const influence = (system: WeatherSystem, coordinates: [number, number]): number => {
+  const d = angularDistance(system.center, coordinates) * (180 / Math.PI) / system.radiusDeg;
+  return system.intensity * Math.exp(-d * d);
+};
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+// Whether it falls as snow depends on the temperature, not the system's label
+const precipitationFor = (temperatureC: number): Precipitation => temperatureC < SNOW_BELOW_C ? 'SNOW' : 'RAIN';
+const PRECIPITATING: WeatherKind[] = ['RAIN', 'SNOW', 'STORM'];
+
+// Systems move with their drift from the start of this year's mission window
+export const getSystemsAt = (source: WeatherSource, at: Date): WeatherSystem[] => {
+  const hours = (at.getTime() - getReplayWindow(at).start.getTime()) / 3600000;
+  return source.features.map(({ properties, geometry }) => {
+    const [lon, lat] = geometry.coordinates;
+    const [dLat, dLon] = properties.drift || [0, 0];
+    const kind = properties.kind as WeatherKind;
+    const center: [number, number] = [Math.max(-89, Math.min(89, lat + dLat * hours)), normalizeLon(lon + dLon * hours)];
+    return {
+      name: properties.name,
+      kind,
+      center,
+      radiusDeg: properties.radiusDeg,
+      intensity: properties.intensity,
+      precipitation: PRECIPITATING.includes(kind) ? precipitationFor(climateTemperature(center[0])) : 'NONE'
+    };
+  });
+};
+
+export const getConditionsAt = (systems: WeatherSystem[], coordinates: [number, number]): WeatherConditions => {
+  const temperatureC = climateTemperature(coordinates[0]);
+  let { windKt, windFromDeg } = prevailingWind(coordinates[0]);
+  let cloudCover = 0.15;
+  let precipitationWeight = 0;
+  let fog = 0;
+  let strongest: WeatherSystem | null = null;
+  let strongestWeight = 0;
+
+  for (const system of systems) {
+    const weight = influence(system, coordinates);
+    if (weight < 0.05) continue;
+    if (weight > strongestWeight) {
+      strongest = system;
+      strongestWeight = weight;
+    }
+    cloudCover += weight;
+    switch (system.kind) {
+      case 'STORM': windKt += weight * 45; precipitationWeight += weight; break;
+      case 'RAIN':
+      case 'SNOW': windKt += weight * 10; precipitationWeight += weight * 0.8; break;
+      case 'FOG': fog += weight; windKt *= 1 - weight * 0.7; break;
+    }
+  }
+
+  const precipitation: Precipitation = precipitationWeight < 0.25 ? 'NONE' : precipitationFor(temperatureC);
+  const visibilityKm = MAX_VISIBILITY_KM * (1 - 0.8 * clamp01(precipitationWeight) * (precipitation === 'SNOW' ? 1 : 0.6)) * (1 - 0.95 * clamp01(fog));
+
+  return {
+    windKt: Math.round(windKt),
+    windFromDeg: Math.round(windFromDeg / 10) * 10 % 360,
+    visibilityKm: Math.round(visibilityKm * 10) / 10,
+    temperatureC: Math.round(temperatureC),
+    cloudCover: clamp01(cloudCover),
+    precipitation,
+    snowfallCmHr: precipitation === 'SNOW' ? Math.round(clamp01(precipitationWeight) * 40) / 10 : 0,
+    system: strongest ? strongest.name : null
+  };
+};
+
+export const createStaticWeatherProvider = (source: WeatherSource = weatherData as WeatherSource): WeatherProvider => ({
+  name: 'STATIC',
+  getConditions: async (coordinates, at) => getConditionsAt(getSystemsAt(source, at), coordinates),
+  getSystems: async (at) => getSystemsAt(source, at)
+});
+
+// --- Formatting ---
+
+// e.g. "270/22KT"
+export const formatWind = ({ windKt, windFromDeg }: WeatherConditions): string =>
+  windKt < 3 ? 'CALM' : `${windFromDeg.toString().padStart(3, '0')}/${windKt}KT`;
+
+// Precipitation if any, otherwise the cloud cover, e.g. "SNOW 1.2CM/H", "RAIN", "OVERCAST"
+export const formatSky = ({ precipitation, snowfallCmHr, cloudCover }: WeatherConditions): string => {
+  if (precipitation === 'SNOW') return `SNOW ${snowfallCmHr.toFixed(1)}CM/H`;
+  if (precipitation === 'RAIN') return 'RAIN';
+  return cloudCover > 0.7 ? 'OVERCAST' : cloudCover > 0.35 ? 'BROKEN CLOUD' : 'CLEAR';
+};
+
+// Conditions worth calling out louder than routine weather
+export const isSevereWeather = (conditions: WeatherConditions): boolean =>
+  conditions.windKt >= 40 || conditions.visibilityKm < 3 || conditions.snowfallCmHr >= 3;
+
+// One intel log line, e.g. "WX // ANCHORAGE: 090/18KT VIS 5.1KM -15C SNOW 2.5CM/H (GULF OF ALASKA LOW)"
+export const formatWeatherReport = (station: string, conditions: WeatherConditions): string => [
+  `WX // ${station}:`,
+  formatWind(conditions),
+  `VIS ${conditions.visibilityKm}KM`,
+  `${conditions.temperatureC}C`,
+  formatSky(conditions),
+  conditions.system ? `(${conditions.system})` : ''
+].filter(Boolean).join(' ');
+
+// App-wide provider
+export const weatherProvider = createStaticWeatherProvider();
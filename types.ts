@@ -2,8 +2,8 @@
 import React from 'react';
 
 export interface SantaState {
-  position: [number, number, number];
-  rotation: [number, number, number];
+  position: [number, number, number]; // Earth-centred unit vector (globe axes, Y up)
+  rotation: [number, number, number]; // [pitch, heading, bank] in radians, heading clockwise from north
   speed: number;
   altitude: number;
   giftsDelivered: number;
@@ -15,24 +15,117 @@ export interface SantaState {
   visitedLocations: [number, number][]; // Array of [Lat, Lon]
 }
 
+export type IntelEventType =
+  | 'LAUNCH'
+  | 'RETURN'
+  | 'ARRIVAL'
+  | 'DEPARTURE'
+  | 'REGION_CHANGE'
+  | 'EQUATOR_CROSSING'
+  | 'DATE_LINE_CROSSING'
+  | 'DELIVERY_MILESTONE'
+  | 'WEATHER'
+  | 'CHATTER';
+
 export interface IntelLogEntry {
   id: string;
-  timestamp: string;
+  timestamp: string; // Display time (HH:MM:SS)
+  at: number;        // UTC epoch ms on the mission clock
   message: string;
   priority: 'LOW' | 'MED' | 'HIGH' | 'CRITICAL';
+  type?: IntelEventType;
+  region?: string;
+  station?: string;  // Station Santa was at (or just left) when this was logged
 }
 
 export enum ViewMode {
   OPTICAL = 'OPTICAL',
   THERMAL = 'THERMAL',
-  NIGHT_VISION = 'NIGHT_VISION'
+  NIGHT_VISION = 'NIGHT_VISION',
+  LIDAR = 'LIDAR',
+  SATELLITE = 'SATELLITE'
+}
+
+// Colours and effects for one view mode (see services/themes.ts)
+export interface Theme {
+  mode: ViewMode;
+  // HUD
+  primary: string;
+  primaryDark: string;
+  primaryLight: string;
+  secondary: string;
+  accent: string;
+  glow: string;
+  glowStrong: string;
+  videoFilter: string; // CSS filter applied to the sled-cam feed
+  // Globe
+  shaderMode: number; // Branch of the Earth shader (0 optical, 1 thermal, 2 night vision, 3 lidar, 4 satellite)
+  atmosphere: string;
+  atmosphereOpacity: number;
+  pointCloud: string | null; // Lidar point cloud colour over land, null for none
+  nightLights: number; // City-lights gain on the night side (0 = off)
+  santaMarker: string;
+  santaGlow: string;
+  sleighHeat: string | null; // Thermal signature on the globe sleigh, null for none
+  visitedMarker: string;
+  visitedGlow: string;
+  routeLine: string;
+  routeGlow: string;
+  trajectoryLine: string;
+  trajectoryGlow: string;
+  trajectoryParticle: string;
+  terrain: string; // Sled-cam fallback ground grid
+}
+
+// How the globe's Earth-fixed frame turns: the real sidereal angle from the mission
+// clock, or a free spin at a chosen rate (0 holds it still)
+export type GlobeRotation =
+  | { mode: 'SIDEREAL' }
+  | { mode: 'SPIN', degPerSecond: number };
+
+// Vector layers that can be switched on over the globe texture
+export interface GlobeOverlays {
+  graticule: boolean;
+  borders: boolean;
+  timezones: boolean; // Bands shaded by whether it is Christmas Day there yet
+  dateLine: boolean;
+  midnight: boolean;  // Live meridian where it is currently midnight
+  weather: boolean;   // Clouds and precipitation from the weather provider
+}
+
+// Where the sled-cam panel sits: docked in the left or right column, optionally
+// collapsed to its title bar
+export interface SledCamDock {
+  side: 'LEFT' | 'RIGHT';
+  collapsed: boolean;
+}
+
+// What the sled-cam is flying over
+export type GroundType = 'OCEAN' | 'LAND' | 'CITY';
+
+// How the globe camera moves: user-driven orbit, locked on Santa, flying to (and holding
+// over) a chosen station, or a slow unattended orbit
+export enum CameraMode {
+  FREE = 'FREE',
+  FOLLOW = 'FOLLOW',
+  FLY_TO = 'FLY_TO',
+  CINEMATIC = 'CINEMATIC'
+}
+
+export enum MissionPhase {
+  PRE_LAUNCH = 'PRE_LAUNCH',
+  ACTIVE = 'ACTIVE',
+  RETURNING = 'RETURNING',
+  COMPLETE = 'COMPLETE'
 }
 
 export interface TrackingLocation {
   name: string;
-  offset: number; // UTC Offset
+  offset: number; // UTC Offset (fallback when timeZone is missing or unknown)
+  timeZone?: string; // IANA zone id, e.g. 'Australia/Sydney'
   region: string;
   coordinates: [number, number]; // Lat, Lon
+  population?: number; // Gifts to deliver here (falls back to a per-region weight)
 }
 
 // Global JSX augmentation for React Three Fiber to fix intrinsic element type errors
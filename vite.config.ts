@@ -13,7 +13,10 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.ROUTE_URL': JSON.stringify(env.ROUTE_URL),
+        'process.env.TEXTURE_BASE_URL': JSON.stringify(env.TEXTURE_BASE_URL),
+        'process.env.TEXTURE_RESOLUTION': JSON.stringify(env.TEXTURE_RESOLUTION)
       },
       resolve: {
         alias: {